@@ -0,0 +1,118 @@
+/**
+ * Tests for call-scheduler.ts
+ * Tests concurrency and rate limits, round-robin order and queue status
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { CallScheduler } from '../src/lib/call-scheduler';
+
+// A call that finishes when the test says so
+function deferred() {
+  let finish!: () => void;
+  const done = new Promise<void>(resolve => { finish = resolve; });
+  return { call: () => done, finish };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Call Scheduler', () => {
+  test('runs calls immediately without limits', async () => {
+    const scheduler = new CallScheduler({});
+    const calls = [deferred(), deferred(), deferred()];
+
+    calls.forEach(({ call }) => scheduler.run('tool', call));
+    await tick();
+
+    expect(scheduler.status()).toMatchObject({ active: 3, queued: 0 });
+    calls.forEach(({ finish }) => finish());
+  });
+
+  test('queues calls over the concurrency limit', async () => {
+    const scheduler = new CallScheduler({ maxConcurrency: 2 });
+    const calls = [deferred(), deferred(), deferred()];
+
+    const runs = calls.map(({ call }) => scheduler.run('tool', call));
+    await tick();
+    expect(scheduler.status()).toMatchObject({ active: 2, queued: 1 });
+
+    calls[0]!.finish();
+    await tick();
+    expect(scheduler.status()).toMatchObject({ active: 2, queued: 0 });
+
+    calls[1]!.finish();
+    calls[2]!.finish();
+    await Promise.all(runs);
+    expect(scheduler.status()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  test('starts queued calls round-robin by tool', async () => {
+    const scheduler = new CallScheduler({ maxConcurrency: 1 });
+    const order: string[] = [];
+    const blocker = deferred();
+
+    const runs = [scheduler.run('blocker', blocker.call)];
+    for (const tool of ['search', 'search', 'search', 'checkout']) {
+      runs.push(scheduler.run(tool, async () => { order.push(tool); }));
+    }
+
+    blocker.finish();
+    await Promise.all(runs);
+
+    expect(order).toEqual(['search', 'checkout', 'search', 'search']);
+  });
+
+  test('holds calls over the rate limit until the interval passes', async () => {
+    const scheduler = new CallScheduler({ rateLimit: { requests: 2, interval: 50 } });
+    const startedAt: number[] = [];
+    const begin = Date.now();
+
+    await Promise.all([1, 2, 3].map(() => scheduler.run('tool', async () => { startedAt.push(Date.now() - begin); })));
+
+    expect(startedAt[1]).toBeLessThan(40);
+    expect(startedAt[2]).toBeGreaterThanOrEqual(45);
+  });
+
+  test('reports how long queued calls have waited', async () => {
+    const scheduler = new CallScheduler({ maxConcurrency: 1 });
+    const first = deferred();
+
+    const runs = [scheduler.run('tool', first.call), scheduler.run('tool', async () => {})];
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(scheduler.status().longestWait).toBeGreaterThanOrEqual(25);
+
+    first.finish();
+    await Promise.all(runs);
+    expect(scheduler.status().longestWait).toBe(0);
+    expect(scheduler.status().averageWait).toBeGreaterThanOrEqual(12);
+  });
+
+  test('aborting a queued call removes it without running it', async () => {
+    const scheduler = new CallScheduler({ maxConcurrency: 1 });
+    const first = deferred();
+    const controller = new AbortController();
+    let ran = false;
+
+    scheduler.run('tool', first.call);
+    const queued = scheduler.run('tool', async () => { ran = true; }, controller.signal);
+    controller.abort(new Error('Cancelled by user'));
+
+    await expect(queued).rejects.toThrow('Cancelled by user');
+    expect(scheduler.status().queued).toBe(0);
+
+    first.finish();
+    await tick();
+    expect(ran).toBe(false);
+  });
+
+  test('dispose rejects queued calls', async () => {
+    const scheduler = new CallScheduler({ maxConcurrency: 1 });
+    const first = deferred();
+
+    scheduler.run('tool', first.call);
+    const queued = scheduler.run('tool', async () => {});
+    scheduler.dispose(new Error('Server test disconnected'));
+
+    await expect(queued).rejects.toThrow('Server test disconnected');
+    first.finish();
+  });
+});
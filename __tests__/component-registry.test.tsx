@@ -78,6 +78,30 @@ describe('Component Registry', () => {
       expect(getComponentForTool('unknown_tool')).toBe(null);
     });
 
+    test('resolves server-prefixed tool names to the unprefixed mapping', () => {
+      registerComponents({
+        'forecast-widget': {
+          component: MockComponent1,
+          tools: ['get_daily_forecast']
+        }
+      });
+
+      expect(getComponentForTool('weather__get_daily_forecast')).toBe('forecast-widget');
+      expect(getComponentForTool('weather__unknown_tool')).toBe(null);
+    });
+
+    test('falls back to the original name of an aliased tool', () => {
+      registerComponents({
+        'forecast-widget': {
+          component: MockComponent1,
+          tools: ['get_daily_forecast']
+        }
+      });
+
+      expect(getComponentForTool('forecast', 'get_daily_forecast')).toBe('forecast-widget');
+      expect(getComponentForTool('forecast')).toBe(null);
+    });
+
     test('handles empty tools array', () => {
       const components = {
         'test-component': {
@@ -0,0 +1,102 @@
+/**
+ * Tests for config-env.ts
+ * Tests variable interpolation, .env parsing and secret redaction
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { interpolateEnv, parseEnvFile, redactSecrets, redactConfig } from '../src/lib/config-env';
+
+describe('Config Env', () => {
+  describe('interpolateEnv', () => {
+    test('replaces references in nested strings', () => {
+      const missing: string[] = [];
+      const result = interpolateEnv(
+        { url: 'https://${HOST}/mcp', args: ['--key', '${KEY}'], timeout: 5000 },
+        { HOST: 'mcp.example.com', KEY: 'abc123' },
+        missing
+      );
+
+      expect(result).toEqual({ url: 'https://mcp.example.com/mcp', args: ['--key', 'abc123'], timeout: 5000 });
+      expect(missing).toEqual([]);
+    });
+
+    test('uses defaults for unset or empty variables', () => {
+      const missing: string[] = [];
+      const result = interpolateEnv(['${REGION:-us-east}', '${EMPTY:-fallback}', '${EMPTY}'], { EMPTY: '' }, missing);
+
+      expect(result).toEqual(['us-east', 'fallback', '']);
+      expect(missing).toEqual([]);
+    });
+
+    test('reports missing variables with their path', () => {
+      const missing: string[] = [];
+      interpolateEnv({ env: { API_KEY: '${WEATHER_API_KEY}' } }, {}, missing, 'mcpServers.weather');
+
+      expect(missing).toEqual(['WEATHER_API_KEY (at mcpServers.weather.env.API_KEY)']);
+    });
+
+    test('keeps escaped references literal', () => {
+      const missing: string[] = [];
+      expect(interpolateEnv('$${HOME}', { HOME: '/root' }, missing)).toBe('${HOME}');
+      expect(missing).toEqual([]);
+    });
+  });
+
+  describe('parseEnvFile', () => {
+    test('parses assignments, quotes, comments and export prefixes', () => {
+      const env = parseEnvFile([
+        '# Weather service',
+        'WEATHER_KEY=abc # inline comment',
+        'export REGION=eu',
+        'GREETING="hello world"',
+        "RAW='$not_expanded'",
+        'not a variable',
+      ].join('\n'));
+
+      expect(env).toEqual({
+        WEATHER_KEY: 'abc',
+        REGION: 'eu',
+        GREETING: 'hello world',
+        RAW: '$not_expanded',
+      });
+    });
+  });
+
+  describe('redaction', () => {
+    test('hides resolved secrets in text and configs', () => {
+      interpolateEnv('${TOKEN}', { TOKEN: 'sk-live-secret' }, []);
+
+      expect(redactSecrets('401 for token sk-live-secret')).toBe('401 for token [redacted]');
+      expect(redactConfig({ auth: { bearerToken: 'sk-live-secret' }, timeout: 10 }))
+        .toEqual({ auth: { bearerToken: '[redacted]' }, timeout: 10 });
+    });
+
+    test('hides values of headers, env and credential fields whatever their variable', () => {
+      interpolateEnv(
+        { headers: { 'X-Account': '${ACCOUNT_ID}' }, env: { REGION: '${DEPLOY_REGION}' }, auth: { bearerToken: '${BEARER}' } },
+        { ACCOUNT_ID: 'acct-8812', DEPLOY_REGION: 'eu-central', BEARER: 'b3arer-value' },
+        [],
+        'mcpServers.weather'
+      );
+
+      expect(redactSecrets('acct-8812 eu-central b3arer-value')).toBe('[redacted] [redacted] [redacted]');
+    });
+
+    test('leaves other values visible', () => {
+      interpolateEnv(
+        { args: ['${HOME}/notes'], url: 'http://localhost:${PORT}/mcp', cwd: '${NODE_ENV}' },
+        { HOME: '/home/ada', PORT: '8080', NODE_ENV: 'development' },
+        [],
+        'mcpServers.notes'
+      );
+
+      expect(redactSecrets('/home/ada on 8080 in development')).toBe('/home/ada on 8080 in development');
+    });
+
+    test('leaves defaults and short values visible', () => {
+      interpolateEnv(['${UNSET_REGION:-us-east}', '${FLAG_TOKEN}'], { FLAG_TOKEN: 'on' }, []);
+
+      expect(redactSecrets('us-east is on')).toBe('us-east is on');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * HTTP Test Server
+ * Stand-in Streamable HTTP MCP server that records the headers of every request,
+ * used by the MCP client transport tests
+ */
+
+import { createServer, type IncomingHttpHeaders } from 'http';
+import type { AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HTTPTestServer {
+  url: string; // MCP endpoint
+  requestHeaders: IncomingHttpHeaders[];
+  close(): Promise<void>;
+}
+
+export interface HTTPTestServerOptions {
+  unresponsive?: boolean; // Accept requests but never answer them
+}
+
+export async function startHTTPTestServer(options: HTTPTestServerOptions = {}): Promise<HTTPTestServer> {
+  const httpServer = createServer(async (req, res) => {
+    testServer.requestHeaders.push(req.headers);
+    if (options.unresponsive) return;
+
+    if (new URL(req.url || '/', 'http://localhost').pathname !== '/mcp') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    // Stateless: a fresh server and transport per request
+    const server = createMCPServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+  });
+
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+
+  const testServer: HTTPTestServer = {
+    url: `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`,
+    requestHeaders: [],
+    close: () => new Promise(resolve => {
+      httpServer.closeAllConnections();
+      httpServer.close(() => resolve());
+    }),
+  };
+  return testServer;
+}
+
+function createMCPServer(): Server {
+  const server = new Server({ name: 'http-test-server', version: '1.0.0' }, { capabilities: { tools: {} } });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      {
+        name: 'ping_http',
+        description: 'Reply over HTTP',
+        inputSchema: { type: 'object', properties: {} },
+      },
+    ],
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async () => ({
+    content: [{ type: 'text', text: 'pong' }],
+  }));
+
+  return server;
+}
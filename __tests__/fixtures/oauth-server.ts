@@ -0,0 +1,183 @@
+/**
+ * OAuth Test Server
+ * Stand-in authorization server and OAuth-protected Streamable HTTP MCP server,
+ * used by the MCP OAuth tests
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { createHash, randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+export interface OAuthTestServer {
+  url: string; // MCP endpoint
+  registeredClients: number;
+  tokenRequests: string[]; // grant_type of every token request
+  expireAccessTokens(): void;
+  close(): Promise<void>;
+}
+
+export async function startOAuthTestServer(): Promise<OAuthTestServer> {
+  const codes = new Map<string, { clientId: string; codeChallenge: string; redirectUri: string }>();
+  const accessTokens = new Set<string>();
+  const refreshTokens = new Set<string>();
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', origin());
+
+    switch (url.pathname) {
+      case '/.well-known/oauth-protected-resource':
+      case '/.well-known/oauth-protected-resource/mcp':
+        return json(res, 200, {
+          resource: `${origin()}/mcp`,
+          authorization_servers: [origin()],
+        });
+
+      case '/.well-known/oauth-authorization-server':
+        return json(res, 200, {
+          issuer: origin(),
+          authorization_endpoint: `${origin()}/authorize`,
+          token_endpoint: `${origin()}/token`,
+          registration_endpoint: `${origin()}/register`,
+          response_types_supported: ['code'],
+          grant_types_supported: ['authorization_code', 'refresh_token'],
+          code_challenge_methods_supported: ['S256'],
+          token_endpoint_auth_methods_supported: ['none'],
+        });
+
+      case '/register': {
+        const metadata = JSON.parse(await readBody(req));
+        testServer.registeredClients++;
+        return json(res, 201, { ...metadata, client_id: randomUUID(), client_id_issued_at: Math.floor(Date.now() / 1000) });
+      }
+
+      case '/authorize': {
+        // Consent is granted immediately; the test follows the redirect itself
+        const code = randomUUID();
+        codes.set(code, {
+          clientId: url.searchParams.get('client_id') || '',
+          codeChallenge: url.searchParams.get('code_challenge') || '',
+          redirectUri: url.searchParams.get('redirect_uri') || '',
+        });
+        const redirect = new URL(url.searchParams.get('redirect_uri') || '');
+        redirect.searchParams.set('code', code);
+        redirect.searchParams.set('state', url.searchParams.get('state') || '');
+        res.writeHead(302, { Location: redirect.toString() }).end();
+        return;
+      }
+
+      case '/token': {
+        const params = new URLSearchParams(await readBody(req));
+        const grantType = params.get('grant_type') || '';
+        testServer.tokenRequests.push(grantType);
+
+        if (grantType === 'authorization_code') {
+          const pending = codes.get(params.get('code') || '');
+          const challenge = createHash('sha256').update(params.get('code_verifier') || '').digest('base64url');
+          if (!pending || pending.codeChallenge !== challenge || pending.redirectUri !== params.get('redirect_uri')) {
+            return json(res, 400, { error: 'invalid_grant' });
+          }
+          codes.delete(params.get('code') || '');
+          return json(res, 200, issueTokens());
+        }
+
+        if (grantType === 'refresh_token' && refreshTokens.has(params.get('refresh_token') || '')) {
+          return json(res, 200, issueTokens());
+        }
+
+        return json(res, 400, { error: 'invalid_grant' });
+      }
+
+      case '/mcp': {
+        const token = req.headers.authorization?.replace(/^Bearer /, '');
+        if (!token || !accessTokens.has(token)) {
+          res.writeHead(401, {
+            'WWW-Authenticate': `Bearer resource_metadata="${origin()}/.well-known/oauth-protected-resource/mcp"`,
+          }).end();
+          return;
+        }
+
+        // Stateless: a fresh server and transport per request
+        const server = createMCPServer();
+        const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+        res.on('close', () => {
+          transport.close();
+          server.close();
+        });
+        await server.connect(transport);
+        await transport.handleRequest(req, res);
+        return;
+      }
+
+      default:
+        res.writeHead(404).end();
+    }
+  });
+
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+
+  function origin(): string {
+    return `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  }
+
+  function issueTokens() {
+    const accessToken = randomUUID();
+    const refreshToken = randomUUID();
+    accessTokens.add(accessToken);
+    refreshTokens.add(refreshToken);
+    return { access_token: accessToken, refresh_token: refreshToken, token_type: 'Bearer', expires_in: 3600 };
+  }
+
+  const testServer: OAuthTestServer = {
+    url: `${origin()}/mcp`,
+    registeredClients: 0,
+    tokenRequests: [],
+    expireAccessTokens: () => accessTokens.clear(),
+    close: () => new Promise(resolve => {
+      httpServer.closeAllConnections();
+      httpServer.close(() => resolve());
+    }),
+  };
+  return testServer;
+}
+
+function createMCPServer(): Server {
+  const server = new Server({ name: 'oauth-test-server', version: '1.0.0' }, { capabilities: { tools: {}, resources: {} } });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      {
+        name: 'secret',
+        description: 'Return data only authorized clients can see',
+        inputSchema: { type: 'object', properties: {} },
+      },
+    ],
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async () => ({
+    content: [{ type: 'text', text: 'top secret' }],
+  }));
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: [] }));
+
+  return server;
+}
+
+function json(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
@@ -0,0 +1,300 @@
+#!/usr/bin/env bun
+
+/**
+ * Test MCP Server
+ * Minimal stdio server used by the MCP client tests
+ */
+
+import { existsSync, writeFileSync } from 'fs';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+// When set, a crash leaves this marker behind and later starts exit immediately
+const crashMarker = process.env.CRASH_MARKER;
+if (crashMarker && existsSync(crashMarker)) {
+  process.exit(1);
+}
+
+// Tools added at runtime through the add_tool tool
+const dynamicTools: string[] = [];
+
+// Calls served by the counter tool, to tell cached results from fresh ones
+let counterCalls = 0;
+
+const server = new Server(
+  {
+    name: 'test-server',
+    version: '1.0.0',
+  },
+  {
+    capabilities: {
+      tools: { listChanged: true },
+      resources: {},
+      prompts: {},
+      logging: {},
+    },
+  }
+);
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [
+      {
+        name: 'echo',
+        description: 'Echo the given text',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            text: { type: 'string' },
+          },
+          required: ['text'],
+        },
+        annotations: { readOnlyHint: true },
+      },
+      {
+        name: 'crash',
+        description: 'Exit the server process',
+        inputSchema: { type: 'object', properties: {} },
+        annotations: { destructiveHint: true },
+      },
+      {
+        name: 'summarize',
+        description: 'Summarize text using the client LLM',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            text: { type: 'string' },
+          },
+          required: ['text'],
+        },
+      },
+      {
+        name: 'confirm_address',
+        description: 'Ask the user to confirm a shipping address',
+        inputSchema: { type: 'object', properties: {} },
+      },
+      {
+        name: 'slow',
+        description: 'Report progress in steps, then finish',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            steps: { type: 'number' },
+            delay: { type: 'number' },
+          },
+        },
+      },
+      {
+        name: 'add_tool',
+        description: 'Register a new tool and notify the client',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'measure',
+        description: 'Return a measurement, optionally one that breaks the output schema',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            malformed: { type: 'boolean' },
+          },
+        },
+        outputSchema: {
+          type: 'object',
+          properties: {
+            value: { type: 'number' },
+            unit: { type: 'string' },
+          },
+          required: ['value', 'unit'],
+        },
+      },
+      {
+        name: 'whoami',
+        description: 'Report the arguments and request headers the server received',
+        inputSchema: { type: 'object', properties: {} },
+      },
+      {
+        name: 'counter',
+        description: 'Report how many times this tool has been called',
+        inputSchema: { type: 'object', properties: { key: { type: 'string' } } },
+        annotations: { readOnlyHint: true },
+      },
+      {
+        name: 'log',
+        description: 'Send a logging notification and write the message to stderr',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            level: { type: 'string' },
+            message: { type: 'string' },
+          },
+          required: ['level', 'message'],
+        },
+      },
+      ...dynamicTools.map(name => ({
+        name,
+        description: 'Dynamically added tool',
+        inputSchema: { type: 'object' as const, properties: {} },
+      })),
+    ],
+  };
+});
+
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  return { resources: [] };
+});
+
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  return {
+    prompts: [
+      {
+        name: 'greet',
+        description: 'Greet someone by name',
+        arguments: [{ name: 'name', description: 'Who to greet', required: true }],
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(GetPromptRequestSchema, async (request: any) => {
+  const name = request.params.arguments?.name;
+  return {
+    description: 'A greeting',
+    messages: [
+      { role: 'user', content: { type: 'text', text: `Say hello to ${name}` } },
+      { role: 'assistant', content: { type: 'text', text: `Hello, ${name}!` } },
+    ],
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request: any, extra) => {
+  const { name, arguments: args } = request.params;
+
+  switch (name) {
+    case 'echo':
+      return {
+        content: [{ type: 'text', text: String(args?.text ?? '') }],
+        structuredContent: { text: args?.text },
+      };
+
+    case 'crash':
+      if (crashMarker) {
+        writeFileSync(crashMarker, 'crashed');
+      }
+      process.exit(1);
+
+    case 'summarize': {
+      const result = await server.createMessage({
+        systemPrompt: 'Summarize briefly',
+        messages: [{ role: 'user', content: { type: 'text', text: String(args?.text) } }],
+        maxTokens: 100,
+      });
+      return {
+        content: [{ type: 'text', text: (result.content as any).text }],
+        structuredContent: { model: result.model, stopReason: result.stopReason },
+      };
+    }
+
+    case 'confirm_address': {
+      const result = await server.elicitInput({
+        message: 'Confirm your shipping address',
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            street: { type: 'string', title: 'Street' },
+            express: { type: 'boolean', title: 'Express shipping' },
+          },
+          required: ['street'],
+        },
+      });
+      return {
+        content: [{ type: 'text', text: result.action }],
+        structuredContent: { action: result.action, content: result.content },
+      };
+    }
+
+    case 'slow': {
+      const steps = Number(args?.steps ?? 3);
+      const delay = Number(args?.delay ?? 20);
+      const progressToken = request.params._meta?.progressToken;
+
+      for (let step = 1; step <= steps; step++) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+        if (extra.signal.aborted) {
+          throw new Error('Cancelled');
+        }
+        if (progressToken !== undefined) {
+          await extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress: step, total: steps, message: `Step ${step}` },
+          });
+        }
+      }
+
+      // Let the last progress notification reach the client before the result
+      await new Promise(resolve => setTimeout(resolve, delay));
+
+      return {
+        content: [{ type: 'text', text: 'done' }],
+      };
+    }
+
+    case 'add_tool':
+      dynamicTools.push(String(args?.name));
+      await server.sendToolListChanged();
+      return {
+        content: [{ type: 'text', text: `Added ${args?.name}` }],
+      };
+
+    case 'measure': {
+      const structuredContent = args?.malformed ? { value: 'tall' } : { value: 42, unit: 'cm' };
+      return {
+        content: [{ type: 'text', text: JSON.stringify(structuredContent) }],
+        structuredContent,
+      };
+    }
+
+    case 'whoami':
+      return {
+        content: [{ type: 'text', text: 'ok' }],
+        structuredContent: { args: args ?? {}, headers: request.params._meta?.headers ?? null },
+      };
+
+    case 'counter':
+      counterCalls++;
+      return {
+        content: [{ type: 'text', text: String(counterCalls) }],
+        structuredContent: { calls: counterCalls },
+      };
+
+    case 'log':
+      // Dropped by the SDK when below the level the client set
+      await server.sendLoggingMessage({ level: args?.level as any, logger: 'test-server', data: args?.message });
+      console.error(`stderr: ${args?.message}`);
+      return {
+        content: [{ type: 'text', text: 'logged' }],
+      };
+
+    default:
+      if (dynamicTools.includes(name)) {
+        return {
+          content: [{ type: 'text', text: `Called ${name}` }],
+        };
+      }
+      throw new Error(`Unknown tool: ${name}`);
+  }
+});
+
+await server.connect(new StdioServerTransport());
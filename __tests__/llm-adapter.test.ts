@@ -0,0 +1,597 @@
+/**
+ * Tests for llm-adapter.ts
+ * Tests the Anthropic and Gemini adapters against recorded API responses
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { join } from 'path';
+import { AnthropicAdapter, GeminiAdapter, OpenAICompatibleAdapter } from '../src/lib/llm-adapter';
+import type { ChatCompletionChunk, MCPTool, Message } from '../src/lib/types';
+
+// Servers send full JSON Schema, with keywords MCPTool's inputSchema type leaves out
+type SchemaTool = Omit<MCPTool, 'inputSchema'> & {
+  inputSchema: MCPTool['inputSchema'] & Record<string, unknown>;
+};
+
+const FIXTURES = join(import.meta.dir, 'fixtures', 'anthropic');
+const GEMINI_FIXTURES = join(import.meta.dir, 'fixtures', 'gemini');
+
+const weatherTool: MCPTool = {
+  name: 'get_weather',
+  description: 'Get the current weather for a location',
+  inputSchema: {
+    type: 'object',
+    properties: { location: { type: 'string' }, unit: { type: 'string' } },
+    required: ['location'],
+  },
+};
+
+describe('AnthropicAdapter', () => {
+  // Stands in for the Messages API: records each request body and replies with a fixture.
+  // Streams are sent a few bytes at a time, so events arrive split across reads.
+  let server: ReturnType<typeof Bun.serve>;
+  let fixture = 'text-blocks.json';
+  let requests: any[] = [];
+
+  const adapter = () => new AnthropicAdapter({
+    provider: 'anthropic',
+    apiKey: 'test-key',
+    baseUrl: `http://localhost:${server.port}`,
+    model: 'claude-sonnet-4-5-20250929',
+  });
+
+  const reply = async (name: string, messages: Message[], tools?: MCPTool[]) => {
+    fixture = name;
+    requests = [];
+    return adapter().chat({ messages, tools });
+  };
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        requests.push(await request.json());
+        if (!fixture.endsWith('.sse')) {
+          return new Response(Bun.file(join(FIXTURES, fixture)), {
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+
+        const events = await Bun.file(join(FIXTURES, fixture)).text();
+        return new Response(new ReadableStream({
+          start(controller) {
+            for (let offset = 0; offset < events.length; offset += 40) {
+              controller.enqueue(new TextEncoder().encode(events.slice(offset, offset + 40)));
+            }
+            controller.close();
+          },
+        }), { headers: { 'Content-Type': 'text/event-stream' } });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  describe('responses', () => {
+    test('turns tool_use blocks into tool calls', async () => {
+      const response = await reply('tool-use.json', [{ role: 'user', content: 'Weather in SF?' }], [weatherTool]);
+
+      expect(response.choices[0]).toEqual({
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: "I'll check the current weather in San Francisco for you.",
+          tool_calls: [{
+            id: 'toolu_01A09q90qw90lq917835lq9',
+            type: 'function',
+            function: {
+              name: 'get_weather',
+              arguments: JSON.stringify({ location: 'San Francisco, CA', unit: 'celsius' }),
+            },
+          }],
+        },
+        finish_reason: 'tool_calls',
+      });
+    });
+
+    test('keeps every tool call of a parallel tool use', async () => {
+      const response = await reply('parallel-tool-use.json', [{ role: 'user', content: 'Find running shoes' }]);
+      const message = response.choices[0]!.message;
+
+      expect(message.content).toBe('');
+      expect(message.tool_calls?.map(call => [call.id, call.function.name, call.function.arguments])).toEqual([
+        ['toolu_01Rz3oW8dMtm3DAMmCVpBNkZ', 'search_products', '{"query":"running shoes","limit":5}'],
+        ['toolu_01Wq7BHd5yS1kQxv2LbP9mTf', 'get_cart', '{}'],
+      ]);
+    });
+
+    test('joins every text block', async () => {
+      const response = await reply('text-blocks.json', [{ role: 'user', content: 'Weather in SF?' }]);
+
+      expect(response.choices[0]!.message).toEqual({
+        role: 'assistant',
+        content: "It's currently 18°C and partly cloudy in San Francisco. Expect fog to roll in this evening, with a low of 12°C.",
+      });
+      expect(response.choices[0]!.finish_reason).toBe('stop');
+      expect(response.usage).toEqual({ prompt_tokens: 538, completion_tokens: 41, total_tokens: 579 });
+    });
+
+    test('reports truncated responses as length', async () => {
+      const response = await reply('max-tokens.json', [{ role: 'user', content: 'Summarize my orders' }]);
+
+      expect(response.choices[0]!.finish_reason).toBe('length');
+    });
+  });
+
+  describe('requests', () => {
+    test('sends tool calls as tool_use blocks and tool results as tool_result blocks', async () => {
+      await reply('text-blocks.json', [
+        { role: 'system', content: 'You are a weather assistant.' },
+        { role: 'user', content: 'Weather in SF and Oakland?' },
+        {
+          role: 'assistant',
+          content: 'Checking both cities.',
+          tool_calls: [
+            { id: 'toolu_01', type: 'function', function: { name: 'get_weather', arguments: '{"location":"San Francisco, CA"}' } },
+            { id: 'toolu_02', type: 'function', function: { name: 'get_weather', arguments: '{"location":"Oakland, CA"}' } },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'toolu_01', content: '{"temperature":18}' },
+        { role: 'tool', tool_call_id: 'toolu_02', content: '{"temperature":21}' },
+      ], [weatherTool]);
+
+      const body = requests[0];
+      expect(body.system).toBe('You are a weather assistant.');
+      expect(body.messages).toEqual([
+        { role: 'user', content: 'Weather in SF and Oakland?' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Checking both cities.' },
+            { type: 'tool_use', id: 'toolu_01', name: 'get_weather', input: { location: 'San Francisco, CA' } },
+            { type: 'tool_use', id: 'toolu_02', name: 'get_weather', input: { location: 'Oakland, CA' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_01', content: '{"temperature":18}' },
+            { type: 'tool_result', tool_use_id: 'toolu_02', content: '{"temperature":21}' },
+          ],
+        },
+      ]);
+      expect(body.tools).toEqual([{
+        name: 'get_weather',
+        description: 'Get the current weather for a location',
+        input_schema: weatherTool.inputSchema,
+      }]);
+    });
+
+    test('sends tool calls without text or arguments', async () => {
+      await reply('text-blocks.json', [
+        { role: 'user', content: "What's in my cart?" },
+        { role: 'assistant', content: '', tool_calls: [{ id: 'toolu_03', type: 'function', function: { name: 'get_cart', arguments: '' } }] },
+        { role: 'tool', tool_call_id: 'toolu_03', content: 'Empty cart' },
+      ]);
+
+      expect(requests[0].messages[1]).toEqual({
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'toolu_03', name: 'get_cart', input: {} }],
+      });
+    });
+
+    test('flags failed tool results and replays malformed arguments as empty', async () => {
+      await reply('text-blocks.json', [
+        { role: 'user', content: 'Weather in SF?' },
+        { role: 'assistant', content: '', tool_calls: [{ id: 'toolu_04', type: 'function', function: { name: 'get_weather', arguments: '{"location": "San Fr' } }] },
+        { role: 'tool', tool_call_id: 'toolu_04', content: '{"content":[{"type":"text","text":"Invalid arguments"}],"isError":true}', is_error: true },
+      ], [weatherTool]);
+
+      expect(requests[0].messages[1].content[0].input).toEqual({});
+      expect(requests[0].messages[2].content[0]).toMatchObject({ tool_use_id: 'toolu_04', is_error: true });
+    });
+
+    test('round-trips a response into the next request', async () => {
+      const response = await reply('tool-use.json', [{ role: 'user', content: 'Weather in SF?' }], [weatherTool]);
+      const assistant = response.choices[0]!.message;
+
+      await reply('text-blocks.json', [
+        { role: 'user', content: 'Weather in SF?' },
+        assistant,
+        { role: 'tool', tool_call_id: assistant.tool_calls![0]!.id, content: '18°C, partly cloudy' },
+      ], [weatherTool]);
+
+      const recorded = await Bun.file(join(FIXTURES, 'tool-use.json')).json();
+      expect(requests[0].messages[1]).toEqual({ role: 'assistant', content: recorded.content });
+      expect(requests[0].messages[2].content[0].tool_use_id).toBe('toolu_01A09q90qw90lq917835lq9');
+    });
+  });
+
+  describe('streaming', () => {
+    const streamChunks = async (name: string) => {
+      fixture = name;
+      requests = [];
+      const chunks: ChatCompletionChunk[] = [];
+      for await (const chunk of adapter().stream({ messages: [{ role: 'user', content: 'Weather in SF?' }], tools: [weatherTool] })) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    test('streams text, tool calls and usage as OpenAI-style chunks', async () => {
+      const chunks = await streamChunks('tool-use-stream.sse');
+
+      expect(requests[0].stream).toBe(true);
+      expect(chunks.every(chunk => chunk.id === 'msg_014p7gG3wDgGV9EUtLvnow3U')).toBe(true);
+      expect(chunks.map(chunk => chunk.choices[0]!.delta)).toEqual([
+        { role: 'assistant', content: '' },
+        { content: 'Let me check' },
+        { content: ' the weather for you.' },
+        { tool_calls: [{ index: 0, id: 'toolu_01T1x1fJ34qAmk2tNTrN7Up6', type: 'function', function: { name: 'get_weather', arguments: '' } }] },
+        { tool_calls: [{ index: 0, function: { arguments: '' } }] },
+        { tool_calls: [{ index: 0, function: { arguments: '{"location":' } }] },
+        { tool_calls: [{ index: 0, function: { arguments: ' "San Francisco, CA"}' } }] },
+        { tool_calls: [{ index: 1, id: 'toolu_01Ck8mYqXb5pLzQ2tRw9vJ3e', type: 'function', function: { name: 'get_cart', arguments: '' } }] },
+        { tool_calls: [{ index: 1, function: { arguments: '{}' } }] },
+        {},
+      ]);
+
+      const last = chunks[chunks.length - 1]!;
+      expect(last.choices[0]!.finish_reason).toBe('tool_calls');
+      expect(last.usage).toEqual({ prompt_tokens: 472, completion_tokens: 89, total_tokens: 561 });
+    });
+
+    test('assembles tool call arguments from their deltas', async () => {
+      const chunks = await streamChunks('tool-use-stream.sse');
+
+      const calls: Array<{ name?: string; arguments: string }> = [];
+      for (const delta of chunks.flatMap(chunk => chunk.choices[0]!.delta.tool_calls ?? [])) {
+        calls[delta.index] ??= { arguments: '' };
+        calls[delta.index]!.name ??= delta.function?.name;
+        calls[delta.index]!.arguments += delta.function?.arguments ?? '';
+      }
+
+      expect(calls.map(call => [call.name, JSON.parse(call.arguments)])).toEqual([
+        ['get_weather', { location: 'San Francisco, CA' }],
+        ['get_cart', {}],
+      ]);
+    });
+
+    test('throws on error events', async () => {
+      await expect(streamChunks('overloaded-stream.sse')).rejects.toThrow('Anthropic API error: overloaded_error Overloaded');
+    });
+
+    test('reads the last event of a stream that ends without a newline', async () => {
+      const chunks = await streamChunks('unterminated-stream.sse');
+
+      const last = chunks[chunks.length - 1]!;
+      expect(last.choices[0]!.finish_reason).toBe('stop');
+      expect(last.usage).toEqual({ prompt_tokens: 25, completion_tokens: 4, total_tokens: 29 });
+    });
+  });
+});
+
+describe('GeminiAdapter', () => {
+  // Stands in for the Gemini API, as the Messages API stand-in above does
+  let server: ReturnType<typeof Bun.serve>;
+  let fixture = 'thinking.json';
+  let requests: Array<{ url: URL; apiKey: string | null; body: any }> = [];
+
+  const adapter = () => new GeminiAdapter({
+    provider: 'gemini',
+    apiKey: 'test-key',
+    baseUrl: `http://localhost:${server.port}/v1beta`,
+    model: 'gemini-2.5-flash',
+  });
+
+  const reply = async (name: string, messages: Message[], tools?: SchemaTool[]) => {
+    fixture = name;
+    requests = [];
+    return adapter().chat({ messages, tools });
+  };
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        requests.push({
+          url: new URL(request.url),
+          apiKey: request.headers.get('x-goog-api-key'),
+          body: await request.json(),
+        });
+        if (!fixture.endsWith('.sse')) {
+          return new Response(Bun.file(join(GEMINI_FIXTURES, fixture)), {
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+
+        const events = await Bun.file(join(GEMINI_FIXTURES, fixture)).text();
+        return new Response(new ReadableStream({
+          start(controller) {
+            for (let offset = 0; offset < events.length; offset += 40) {
+              controller.enqueue(new TextEncoder().encode(events.slice(offset, offset + 40)));
+            }
+            controller.close();
+          },
+        }), { headers: { 'Content-Type': 'text/event-stream' } });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  describe('responses', () => {
+    test('turns functionCall parts into tool calls', async () => {
+      const response = await reply('function-call.json', [{ role: 'user', content: 'Weather in SF?' }], [weatherTool]);
+      const choice = response.choices[0]!;
+
+      expect(response.id).toBe('kTXzaPbCBo2SvdIPlOqJuAk');
+      expect(choice.message.content).toBe("I'll check the current weather in San Francisco for you.");
+      expect(choice.message.tool_calls?.map(call => [call.type, call.function.name, call.function.arguments])).toEqual([
+        ['function', 'get_weather', JSON.stringify({ location: 'San Francisco, CA', unit: 'celsius' })],
+        ['function', 'get_cart', '{}'],
+      ]);
+      expect(new Set(choice.message.tool_calls?.map(call => call.id)).size).toBe(2);
+      expect(choice.finish_reason).toBe('tool_calls');
+      expect(response.usage).toEqual({ prompt_tokens: 112, completion_tokens: 31, total_tokens: 143 });
+    });
+
+    test('joins text parts and leaves out thoughts', async () => {
+      const response = await reply('thinking.json', [{ role: 'user', content: 'Weather in SF?' }]);
+
+      expect(response.choices[0]!.message).toEqual({
+        role: 'assistant',
+        content: "It's currently 18°C and partly cloudy in San Francisco. Expect fog to roll in this evening, with a low of 12°C.",
+      });
+      expect(response.choices[0]!.finish_reason).toBe('stop');
+      expect(response.usage).toEqual({ prompt_tokens: 168, completion_tokens: 93, total_tokens: 261 });
+    });
+
+    test('reports truncated responses as length', async () => {
+      const response = await reply('max-tokens.json', [{ role: 'user', content: 'Summarize my orders' }]);
+
+      expect(response.choices[0]!.finish_reason).toBe('length');
+    });
+
+    test('throws when the prompt is blocked', async () => {
+      await expect(reply('blocked.json', [{ role: 'user', content: 'Something unsafe' }])).rejects.toThrow(
+        'Gemini API error: prompt blocked (SAFETY)'
+      );
+    });
+  });
+
+  describe('requests', () => {
+    test('calls generateContent for the configured model with the API key', async () => {
+      await reply('thinking.json', [{ role: 'user', content: 'Weather in SF?' }]);
+
+      expect(requests[0]!.url.pathname).toBe('/v1beta/models/gemini-2.5-flash:generateContent');
+      expect(requests[0]!.apiKey).toBe('test-key');
+      expect(requests[0]!.body.generationConfig).toEqual({ temperature: 0.7 });
+    });
+
+    test('sends tool calls as functionCall parts and tool results as functionResponse parts', async () => {
+      await reply('thinking.json', [
+        { role: 'system', content: 'You are a weather assistant.' },
+        { role: 'user', content: 'Weather in SF and my cart?' },
+        {
+          role: 'assistant',
+          content: 'Checking both.',
+          tool_calls: [
+            { id: 'call-1', type: 'function', function: { name: 'get_weather', arguments: '{"location":"San Francisco, CA"}' } },
+            { id: 'call-2', type: 'function', function: { name: 'get_cart', arguments: '' } },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call-1', content: '{"temperature":18}' },
+        { role: 'tool', tool_call_id: 'call-2', content: 'Empty cart' },
+      ]);
+
+      const body = requests[0]!.body;
+      expect(body.systemInstruction).toEqual({ parts: [{ text: 'You are a weather assistant.' }] });
+      expect(body.contents).toEqual([
+        { role: 'user', parts: [{ text: 'Weather in SF and my cart?' }] },
+        {
+          role: 'model',
+          parts: [
+            { text: 'Checking both.' },
+            { functionCall: { name: 'get_weather', args: { location: 'San Francisco, CA' } } },
+            { functionCall: { name: 'get_cart', args: {} } },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            { functionResponse: { name: 'get_weather', response: { temperature: 18 } } },
+            { functionResponse: { name: 'get_cart', response: { output: 'Empty cart' } } },
+          ],
+        },
+      ]);
+    });
+
+    test('converts input schemas into function declarations', async () => {
+      await reply('thinking.json', [{ role: 'user', content: 'Find running shoes' }], [
+        {
+          name: 'search_products',
+          description: 'Search the catalog',
+          inputSchema: {
+            $schema: 'http://json-schema.org/draft-07/schema#',
+            type: 'object',
+            properties: {
+              query: { type: 'string', minLength: 1 },
+              sort: { const: 'price' },
+              category: { type: ['string', 'null'], enum: ['shoes', 'apparel'] },
+              since: { type: 'string', format: 'date-time' },
+              email: { type: 'string', format: 'email' },
+              limit: { type: 'integer', exclusiveMinimum: 0, default: 10 },
+              price: { $ref: '#/$defs/Range' },
+            },
+            required: ['query'],
+            additionalProperties: false,
+            $defs: {
+              Range: {
+                type: 'object',
+                properties: { min: { type: 'number' }, max: { anyOf: [{ type: 'number' }, { type: 'null' }] } },
+              },
+            },
+          },
+        },
+        { name: 'get_cart', inputSchema: { type: 'object', properties: {}, additionalProperties: false } },
+      ]);
+
+      expect(requests[0]!.body.tools).toEqual([{
+        functionDeclarations: [
+          {
+            name: 'search_products',
+            description: 'Search the catalog',
+            parameters: {
+              type: 'OBJECT',
+              properties: {
+                query: { type: 'STRING', minLength: 1 },
+                sort: { type: 'STRING', format: 'enum', enum: ['price'] },
+                category: { nullable: true, type: 'STRING', format: 'enum', enum: ['shoes', 'apparel'] },
+                since: { type: 'STRING', format: 'date-time' },
+                email: { type: 'STRING' },
+                limit: { type: 'INTEGER', default: 10 },
+                price: {
+                  type: 'OBJECT',
+                  properties: { min: { type: 'NUMBER' }, max: { nullable: true, type: 'NUMBER' } },
+                },
+              },
+              required: ['query'],
+            },
+          },
+          { name: 'get_cart', description: '' },
+        ],
+      }]);
+    });
+
+    test('stops inlining recursive schemas', async () => {
+      await reply('thinking.json', [{ role: 'user', content: 'Show the category tree' }], [{
+        name: 'save_category',
+        inputSchema: {
+          type: 'object',
+          properties: { category: { $ref: '#/definitions/Category' } },
+          definitions: {
+            Category: {
+              type: 'object',
+              properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/definitions/Category' } } },
+            },
+          },
+        },
+      }]);
+
+      expect(requests[0]!.body.tools[0].functionDeclarations[0].parameters.properties.category).toEqual({
+        type: 'OBJECT',
+        properties: { name: { type: 'STRING' }, children: { type: 'ARRAY' } },
+      });
+    });
+
+    test('round-trips a response into the next request', async () => {
+      const response = await reply('function-call.json', [{ role: 'user', content: 'Weather in SF?' }], [weatherTool]);
+      const assistant = response.choices[0]!.message;
+
+      await reply('thinking.json', [
+        { role: 'user', content: 'Weather in SF?' },
+        assistant,
+        ...assistant.tool_calls!.map(call => ({ role: 'tool' as const, tool_call_id: call.id, content: '{"ok":true}' })),
+      ], [weatherTool]);
+
+      const recorded = await Bun.file(join(GEMINI_FIXTURES, 'function-call.json')).json();
+      expect(requests[0]!.body.contents[1]).toEqual(recorded.candidates[0].content);
+      expect(requests[0]!.body.contents[2].parts.map((part: any) => part.functionResponse.name)).toEqual(['get_weather', 'get_cart']);
+    });
+
+    test('sends function call ids and thought signatures back unchanged', async () => {
+      const response = await reply('thought-signature.json', [{ role: 'user', content: 'Weather in SF?' }], [weatherTool]);
+      const assistant = response.choices[0]!.message;
+      const recorded = await Bun.file(join(GEMINI_FIXTURES, 'thought-signature.json')).json();
+      const recordedPart = recorded.candidates[0].content.parts[0];
+
+      expect(assistant.tool_calls![0]!.id).toBe('fc_9d2b6e1a4c7f');
+      expect(assistant.tool_calls![0]!.provider_metadata).toEqual({
+        gemini: { id: 'fc_9d2b6e1a4c7f', thoughtSignature: recordedPart.thoughtSignature },
+      });
+
+      await reply('thinking.json', [
+        { role: 'user', content: 'Weather in SF?' },
+        assistant,
+        { role: 'tool', tool_call_id: 'fc_9d2b6e1a4c7f', content: '{"temperature":18}' },
+      ], [weatherTool]);
+
+      expect(requests[0]!.body.contents[1]).toEqual(recorded.candidates[0].content);
+      expect(requests[0]!.body.contents[2]).toEqual({
+        role: 'user',
+        parts: [{ functionResponse: { id: 'fc_9d2b6e1a4c7f', name: 'get_weather', response: { temperature: 18 } } }],
+      });
+    });
+
+    test('keeps provider metadata out of OpenAI-compatible requests', async () => {
+      const response = await reply('thought-signature.json', [{ role: 'user', content: 'Weather in SF?' }], [weatherTool]);
+      let sent: any;
+      const openai = Bun.serve({
+        port: 0,
+        async fetch(request) {
+          sent = await request.json();
+          return Response.json({ id: 'chatcmpl-1', choices: [] });
+        },
+      });
+
+      try {
+        await new OpenAICompatibleAdapter({ provider: 'openai', baseUrl: `http://localhost:${openai.port}`, model: 'gpt-4o' })
+          .chat({ messages: [{ role: 'user', content: 'Weather in SF?' }, response.choices[0]!.message] });
+      } finally {
+        openai.stop(true);
+      }
+
+      expect(sent.messages[1].tool_calls[0]).toEqual({
+        id: 'fc_9d2b6e1a4c7f',
+        type: 'function',
+        function: { name: 'get_weather', arguments: '{"location":"San Francisco, CA"}' },
+      });
+    });
+  });
+
+  describe('streaming', () => {
+    const streamChunks = async (name: string) => {
+      fixture = name;
+      requests = [];
+      const chunks: ChatCompletionChunk[] = [];
+      for await (const chunk of adapter().stream({ messages: [{ role: 'user', content: 'Weather in SF?' }], tools: [weatherTool] })) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    test('streams text, tool calls and usage as OpenAI-style chunks', async () => {
+      const chunks = await streamChunks('function-call-stream.sse');
+
+      expect(requests[0]!.url.pathname).toBe('/v1beta/models/gemini-2.5-flash:streamGenerateContent');
+      expect(requests[0]!.url.searchParams.get('alt')).toBe('sse');
+      expect(chunks.every(chunk => chunk.id === '9jnzaJOSDp61vdIPreCt2Aw')).toBe(true);
+
+      const deltas = chunks.map(chunk => chunk.choices[0]!.delta);
+      const toolCallId = (index: number) => deltas[3 + index]!.tool_calls![0]!.id;
+      expect(deltas).toEqual([
+        { role: 'assistant', content: '' },
+        { content: 'Let me check' },
+        { content: ' the weather for you.' },
+        { tool_calls: [{ index: 0, id: toolCallId(0), type: 'function', function: { name: 'get_weather', arguments: '{"location":"San Francisco, CA"}' } }] },
+        { tool_calls: [{ index: 1, id: toolCallId(1), type: 'function', function: { name: 'get_cart', arguments: '{}' } }] },
+        {},
+      ]);
+
+      const last = chunks[chunks.length - 1]!;
+      expect(last.choices[0]!.finish_reason).toBe('tool_calls');
+      expect(last.usage).toEqual({ prompt_tokens: 112, completion_tokens: 38, total_tokens: 150 });
+    });
+
+    test('throws on error events', async () => {
+      await expect(streamChunks('overloaded-stream.sse')).rejects.toThrow(
+        'Gemini API error: 503 The model is overloaded. Please try again later.'
+      );
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for local-tools.ts
+ * Tests in-process tools registered with MCPClient.registerTools()
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { join } from 'path';
+import { MCPClient } from '../src/lib/mcp-client';
+import { defineTool } from '../src/lib/local-tools';
+import type { ToolProgress } from '../src/lib/types';
+
+const getWeather = defineTool<{ city: string }>({
+  name: 'get_weather',
+  description: 'Current weather for a city',
+  inputSchema: {
+    type: 'object',
+    properties: { city: { type: 'string' } },
+    required: ['city'],
+  },
+  componentId: 'weather-widget',
+  handler: ({ city }) => ({ city, temperature: 21 }),
+});
+
+const failing = defineTool({
+  name: 'failing',
+  inputSchema: { type: 'object', properties: {} },
+  handler: () => {
+    throw new Error('Upstream API is down');
+  },
+});
+
+describe('Local tools', () => {
+  let client: MCPClient;
+
+  afterEach(async () => {
+    for (const serverName of client.getConnectedServers()) {
+      await client.disconnect(serverName);
+    }
+  });
+
+  test('lists registered tools like remote ones', async () => {
+    client = new MCPClient();
+    await client.registerTools([getWeather]);
+
+    const tools = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['get_weather']);
+    expect(tools[0]?.inputSchema.required).toEqual(['city']);
+    expect(client.getServerStatus('local')?.state).toBe('ready');
+  });
+
+  test('calls the handler and returns structured content with the component id', async () => {
+    client = new MCPClient();
+    await client.registerTools([getWeather]);
+
+    const result = await client.callTool('get_weather', { city: 'Oslo' });
+
+    expect(result.structuredContent).toEqual({ city: 'Oslo', temperature: 21 });
+    expect(result._meta?.componentId).toBe('weather-widget');
+  });
+
+  test('validates arguments before the handler runs', async () => {
+    client = new MCPClient();
+    await client.registerTools([getWeather]);
+
+    const result = await client.callTool('get_weather', {});
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("should have required property 'city'");
+  });
+
+  test('returns handler failures as tool errors', async () => {
+    client = new MCPClient();
+    await client.registerTools([failing]);
+
+    const result = await client.callTool('failing', {});
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe('Upstream API is down');
+  });
+
+  test('relays progress reported by the handler', async () => {
+    client = new MCPClient();
+    await client.registerTools([
+      defineTool({
+        name: 'import_rows',
+        inputSchema: { type: 'object', properties: {} },
+        handler: async (_args, { reportProgress }) => {
+          await reportProgress({ progress: 1, total: 2 });
+          await reportProgress({ progress: 2, total: 2 });
+          return 'imported';
+        },
+      }),
+    ]);
+
+    const progress: ToolProgress[] = [];
+    const result = await client.callTool('import_rows', {}, undefined, { onProgress: update => progress.push(update) });
+
+    expect(result.content[0]?.text).toBe('imported');
+    expect(progress).toEqual([{ progress: 1, total: 2 }, { progress: 2, total: 2 }]);
+  });
+
+  test('adds tools registered later to the same server', async () => {
+    client = new MCPClient();
+    await client.registerTools([getWeather]);
+
+    const changed = new Promise(resolve => client.once('tools_changed', resolve));
+    await client.registerTools([failing]);
+    await changed;
+
+    expect((await client.listTools()).map(tool => tool.name)).toEqual(['get_weather', 'failing']);
+  });
+
+  test('registers tools under a custom server name', async () => {
+    client = new MCPClient();
+    await client.registerTools([getWeather], 'weather');
+
+    expect(client.resolveTool('get_weather')).toEqual({ serverName: 'weather', toolName: 'get_weather' });
+  });
+
+  test('rejects tool names another server provides', async () => {
+    client = new MCPClient();
+    await client.registerTools([getWeather], 'weather');
+
+    await expect(client.registerTools([{ ...getWeather }], 'forecasts')).rejects.toThrow(
+      'Tool name collision: "get_weather" from forecasts is already provided by weather'
+    );
+    expect(client.isConnected('forecasts')).toBe(false);
+  });
+
+  test('rejects the name of a remote server', async () => {
+    client = new MCPClient();
+    await client.connect({
+      name: 'remote',
+      command: process.execPath,
+      args: [join(import.meta.dir, 'fixtures', 'test-server.ts')],
+      transport: 'stdio',
+      healthCheckInterval: 0,
+    });
+
+    await expect(client.registerTools([getWeather], 'remote')).rejects.toThrow(
+      'Server remote is already configured as a stdio server; register local tools under another name'
+    );
+    expect(client.resolveTool('get_weather')).toBeUndefined();
+  });
+});
@@ -0,0 +1,915 @@
+/**
+ * Tests for mcp-client.ts
+ * Tests MCP server connections against local stdio and Streamable HTTP test servers
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { MCPClient } from '../src/lib/mcp-client';
+import { defineTool } from '../src/lib/local-tools';
+import { deleteToolList, getStoredToolList, saveToolList } from '../src/lib/database';
+import type {
+  MCPServerConfig,
+  MCPServerState,
+  MCPServerStatus,
+  MCPLogEntry,
+  SamplingRequest,
+  ElicitationRequest,
+  ToolProgress,
+  MCPToolAnnotations,
+} from '../src/lib/types';
+import { startHTTPTestServer, type HTTPTestServer } from './fixtures/http-server';
+
+const TEST_SERVER = join(import.meta.dir, 'fixtures', 'test-server.ts');
+
+function testServerConfig(overrides: Partial<MCPServerConfig> = {}): MCPServerConfig {
+  return {
+    name: 'test-server',
+    command: process.execPath,
+    args: [TEST_SERVER],
+    transport: 'stdio',
+    healthCheckInterval: 0,
+    reconnect: { initialDelay: 10, maxDelay: 50, maxAttempts: 2 },
+    ...overrides,
+  };
+}
+
+function waitForState(client: MCPClient, serverName: string, state: MCPServerState): Promise<MCPServerStatus> {
+  return new Promise(resolve => {
+    const listener = (status: MCPServerStatus) => {
+      if (status.name === serverName && status.state === state) {
+        client.off('status', listener);
+        resolve(status);
+      }
+    };
+    client.on('status', listener);
+  });
+}
+
+describe('MCPClient', () => {
+  let client: MCPClient;
+
+  afterEach(async () => {
+    for (const serverName of client.getConnectedServers()) {
+      await client.disconnect(serverName);
+    }
+  });
+
+  describe('supervision', () => {
+    test('reports ready after connecting', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      expect(client.getServerStatus('test-server')).toMatchObject({
+        state: 'ready',
+        reconnectAttempts: 0,
+      });
+      expect((await client.listTools()).map(tool => tool.name)).toEqual(['echo', 'crash', 'summarize', 'confirm_address', 'slow', 'add_tool', 'measure', 'whoami', 'counter', 'log']);
+    });
+
+    test('reports failed when the initial connection fails', async () => {
+      client = new MCPClient();
+      const config = testServerConfig({ transport: 'http', url: 'http://127.0.0.1:1/mcp', timeout: 1000 });
+
+      await expect(client.connect(config)).rejects.toThrow();
+      expect(client.getServerStatus('test-server')?.state).toBe('failed');
+      expect(client.getServerStatus('test-server')?.lastError).toBeDefined();
+    });
+
+    test('restarts a crashed server and re-registers its tools', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const degraded = waitForState(client, 'test-server', 'degraded');
+      const ready = degraded.then(() => waitForState(client, 'test-server', 'ready'));
+
+      await client.callTool('crash', {}).catch(() => {});
+
+      expect((await degraded).reconnectAttempts).toBe(1);
+      await ready;
+
+      const result = await client.callTool('echo', { text: 'back' });
+      expect(result.structuredContent).toEqual({ text: 'back' });
+    });
+
+    test('marks the server failed once reconnect attempts run out', async () => {
+      const tempDir = mkdtempSync(join(tmpdir(), 'mcp-client-'));
+      try {
+        client = new MCPClient();
+        await client.connect(testServerConfig({
+          env: { ...process.env as Record<string, string>, CRASH_MARKER: join(tempDir, 'crashed') },
+        }));
+
+        const failed = waitForState(client, 'test-server', 'failed');
+        await client.callTool('crash', {}).catch(() => {});
+
+        expect((await failed).reconnectAttempts).toBe(2);
+        expect(client.isConnected('test-server')).toBe(false);
+        expect(await client.listTools()).toEqual([]);
+      } finally {
+        rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    test('does not reconnect after an explicit disconnect', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const states: MCPServerState[] = [];
+      client.on('status', (status: MCPServerStatus) => states.push(status.state));
+
+      await client.disconnect('test-server');
+      await Bun.sleep(50);
+
+      expect(states).toEqual([]);
+      expect(client.getServerStatus('test-server')).toBeUndefined();
+    });
+
+    test('drops a connection that opens after an explicit disconnect', async () => {
+      client = new MCPClient();
+      const connecting = client.connect(testServerConfig());
+
+      await client.disconnect('test-server');
+
+      await expect(connecting).rejects.toThrow('Server test-server was disconnected while connecting');
+      expect(client.isConnected('test-server')).toBe(false);
+      expect(client.getServerStatus('test-server')).toBeUndefined();
+      expect(await client.listTools()).toEqual([]);
+    });
+
+    test('drops a reconnect that completes after an explicit disconnect', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const reconnecting = waitForState(client, 'test-server', 'connecting');
+      await client.callTool('crash', {}).catch(() => {});
+      await reconnecting;
+      await client.disconnect('test-server');
+      await Bun.sleep(500);
+
+      expect(client.isConnected('test-server')).toBe(false);
+      expect(client.getServerStatus('test-server')).toBeUndefined();
+      expect(await client.listTools()).toEqual([]);
+    });
+  });
+
+  describe('remote transports', () => {
+    let httpServer: HTTPTestServer | undefined;
+
+    afterEach(async () => {
+      await httpServer?.close();
+      httpServer = undefined;
+    });
+
+    test('connects over Streamable HTTP and sends configured headers', async () => {
+      httpServer = await startHTTPTestServer();
+      client = new MCPClient();
+      await client.connect({
+        name: 'http-server',
+        transport: 'http',
+        url: httpServer.url,
+        headers: { 'X-Tenant': 'acme' },
+        healthCheckInterval: 0,
+      });
+
+      const result = await client.callTool('ping_http', {});
+
+      expect(result.content).toEqual([{ type: 'text', text: 'pong' }]);
+      expect(httpServer.requestHeaders.length).toBeGreaterThan(0);
+      expect(httpServer.requestHeaders.every(headers => headers['x-tenant'] === 'acme')).toBe(true);
+    });
+
+    test('gives up on an unresponsive server after the timeout', async () => {
+      httpServer = await startHTTPTestServer({ unresponsive: true });
+      client = new MCPClient();
+      const started = Date.now();
+
+      await expect(client.connect({
+        name: 'http-server',
+        transport: 'http',
+        url: httpServer.url,
+        timeout: 200,
+        healthCheckInterval: 0,
+      })).rejects.toThrow('Timed out connecting to http-server after 200ms');
+      expect(Date.now() - started).toBeLessThan(2000);
+      expect(httpServer.requestHeaders.length).toBe(1);
+      expect(client.getServerStatus('http-server')?.state).toBe('failed');
+    });
+  });
+
+  describe('tool naming', () => {
+    test('fails the second server when tool names collide', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ name: 'first' }));
+
+      await expect(client.connect(testServerConfig({ name: 'second' }))).rejects.toThrow(
+        'Tool name collision: "echo" from second is already provided by first'
+      );
+      expect(client.isConnected('second')).toBe(false);
+      expect(client.resolveTool('echo')).toEqual({ serverName: 'first', toolName: 'echo' });
+    });
+
+    test('prefixes tools with the server name', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ name: 'first' }));
+      await client.connect(testServerConfig({
+        name: 'second-server',
+        toolNaming: { strategy: 'prefix' },
+      }));
+
+      const names = (await client.listTools()).map(tool => tool.name);
+      expect(names).toContain('second-server__echo');
+      expect(client.resolveTool('second-server__echo')).toEqual({ serverName: 'second-server', toolName: 'echo' });
+
+      const result = await client.callTool('second-server__echo', { text: 'prefixed' });
+      expect(result.structuredContent).toEqual({ text: 'prefixed' });
+    });
+
+    test('uses a custom prefix', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ toolNaming: { strategy: 'prefix', prefix: 'test' } }));
+
+      expect(client.resolveTool('test__echo')).toEqual({ serverName: 'test-server', toolName: 'echo' });
+    });
+
+    test('renames tools from an alias map', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ name: 'first' }));
+      await client.connect(testServerConfig({
+        name: 'second',
+        toolNaming: { strategy: 'alias', aliases: { echo: 'repeat', crash: 'second_crash', summarize: 'second_summarize', confirm_address: 'second_confirm_address', slow: 'second_slow', add_tool: 'second_add_tool', measure: 'second_measure', whoami: 'second_whoami', counter: 'second_counter', log: 'second_log' } },
+      }));
+
+      const result = await client.callTool('repeat', { text: 'aliased' });
+      expect(result.structuredContent).toEqual({ text: 'aliased' });
+      expect(client.resolveTool('echo')?.serverName).toBe('first');
+    });
+  });
+
+  describe('list changes', () => {
+    test('re-syncs tools when the server sends tools/list_changed', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const changed = new Promise<{ serverName: string }>(resolve => client.once('tools_changed', resolve));
+      await client.callTool('add_tool', { name: 'late_tool' });
+
+      expect(await changed).toEqual({ serverName: 'test-server' });
+      expect((await client.listTools()).map(tool => tool.name)).toContain('late_tool');
+
+      const result = await client.callTool('late_tool', {});
+      expect(result.content[0]?.text).toBe('Called late_tool');
+    });
+
+    test('emits tools_changed when a server disconnects', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const changed = new Promise<{ serverName: string }>(resolve => client.once('tools_changed', resolve));
+      await client.disconnect('test-server');
+
+      expect(await changed).toEqual({ serverName: 'test-server' });
+      expect(await client.listTools()).toEqual([]);
+    });
+  });
+
+  describe('prompts', () => {
+    test('lists prompts with their arguments', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      expect(await client.listPrompts()).toEqual([
+        {
+          name: 'greet',
+          description: 'Greet someone by name',
+          arguments: [{ name: 'name', description: 'Who to greet', required: true }],
+        },
+      ]);
+    });
+
+    test('renders a prompt into conversation messages', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const rendered = await client.getPrompt('greet', { name: 'Ada' });
+      expect(rendered).toEqual({
+        description: 'A greeting',
+        messages: [
+          { role: 'user', content: 'Say hello to Ada' },
+          { role: 'assistant', content: 'Hello, Ada!' },
+        ],
+      });
+    });
+
+    test('rejects prompts with missing required arguments', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const error = await client.getPrompt('greet').catch(error => error);
+      expect(error).toBeInstanceOf(McpError);
+      expect(error.code).toBe(ErrorCode.InvalidParams);
+      expect(error.message).toContain('Prompt greet is missing required arguments: name');
+    });
+
+    test('rejects prompt arguments that are not strings', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      await expect(client.getPrompt('greet', { name: 42 as unknown as string })).rejects.toThrow(
+        'Prompt greet arguments must be strings: name'
+      );
+    });
+
+    test('prefixes prompts for servers using the prefix strategy', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ toolNaming: { strategy: 'prefix', prefix: 'test' } }));
+
+      const rendered = await client.getPrompt('test__greet', { name: 'Lin' });
+      expect(rendered.messages[1]?.content).toBe('Hello, Lin!');
+    });
+  });
+
+  describe('sampling', () => {
+    test('routes sampling requests to the handler', async () => {
+      client = new MCPClient();
+      const requests: SamplingRequest[] = [];
+      client.setSamplingHandler(async request => {
+        requests.push(request);
+        return { content: 'Short summary', model: 'test-model', stopReason: 'endTurn', tokensUsed: 42 };
+      });
+      await client.connect(testServerConfig());
+
+      const result = await client.callTool('summarize', { text: 'A long story' });
+
+      expect(result.content[0]?.text).toBe('Short summary');
+      expect(result.structuredContent).toEqual({ model: 'test-model', stopReason: 'endTurn' });
+      expect(requests[0]).toEqual({
+        serverName: 'test-server',
+        messages: [{ role: 'user', content: 'A long story' }],
+        systemPrompt: 'Summarize briefly',
+        maxTokens: 100,
+        temperature: undefined,
+        requireApproval: false,
+      });
+      expect(client.getSamplingUsage('test-server')).toBe(42);
+    });
+
+    test('keeps the tool call alive while the sampling request is answered', async () => {
+      client = new MCPClient();
+      client.setSamplingHandler(async () => {
+        await new Promise(resolve => setTimeout(resolve, 250));
+        return { content: 'Late summary', model: 'test-model', stopReason: 'endTurn' };
+      });
+      await client.connect(testServerConfig({ toolTimeout: 100 }));
+
+      const result = await client.callTool('summarize', { text: 'A long story' });
+      expect(result.content[0]?.text).toBe('Late summary');
+    });
+
+    test('rejects sampling when no handler is set', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      await expect(client.callTool('summarize', { text: 'text' })).rejects.toThrow(
+        'Sampling is not enabled for test-server'
+      );
+    });
+
+    test('caps requests to the remaining token budget and stops when exhausted', async () => {
+      client = new MCPClient();
+      const maxTokens: number[] = [];
+      client.setSamplingHandler(async request => {
+        maxTokens.push(request.maxTokens);
+        return { content: 'ok', model: 'test-model', stopReason: 'endTurn', tokensUsed: request.maxTokens };
+      });
+      await client.connect(testServerConfig({ sampling: { tokenBudget: 150, requireApproval: true } }));
+
+      await client.callTool('summarize', { text: 'one' });
+      await client.callTool('summarize', { text: 'two' });
+      await expect(client.callTool('summarize', { text: 'three' })).rejects.toThrow(
+        'Sampling token budget exhausted for test-server'
+      );
+
+      expect(maxTokens).toEqual([100, 50]);
+    });
+  });
+
+  describe('elicitation', () => {
+    test('forwards elicitation requests and returns the user response', async () => {
+      client = new MCPClient();
+      const requests: ElicitationRequest[] = [];
+      client.setElicitationHandler(async request => {
+        requests.push(request);
+        return { action: 'accept', content: { street: '1 Main St', express: true } };
+      });
+      await client.connect(testServerConfig());
+
+      const result = await client.callTool('confirm_address', {});
+
+      expect(requests[0]?.serverName).toBe('test-server');
+      expect(requests[0]?.message).toBe('Confirm your shipping address');
+      expect(requests[0]?.requestedSchema.required).toEqual(['street']);
+      expect(result.structuredContent).toEqual({
+        action: 'accept',
+        content: { street: '1 Main St', express: true },
+      });
+    });
+
+    test('passes declined responses back to the server', async () => {
+      client = new MCPClient();
+      client.setElicitationHandler(async () => ({ action: 'decline' }));
+      await client.connect(testServerConfig());
+
+      const result = await client.callTool('confirm_address', {});
+      expect(result.structuredContent).toEqual({ action: 'decline' });
+    });
+
+    test('keeps the tool call alive while the user answers', async () => {
+      client = new MCPClient();
+      client.setElicitationHandler(async () => {
+        await new Promise(resolve => setTimeout(resolve, 250));
+        return { action: 'accept', content: { street: '1 Main St' } };
+      });
+      await client.connect(testServerConfig({ toolTimeout: 100 }));
+
+      const result = await client.callTool('confirm_address', {});
+      expect(result.structuredContent).toEqual({ action: 'accept', content: { street: '1 Main St' } });
+    });
+  });
+
+  describe('progress and cancellation', () => {
+    test('relays progress notifications to the caller', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const progress: ToolProgress[] = [];
+      const result = await client.callTool('slow', { steps: 3 }, undefined, {
+        onProgress: update => progress.push(update),
+      });
+
+      expect(result.content[0]?.text).toBe('done');
+      expect(progress).toEqual([
+        { progress: 1, total: 3, message: 'Step 1' },
+        { progress: 2, total: 3, message: 'Step 2' },
+        { progress: 3, total: 3, message: 'Step 3' },
+      ]);
+    });
+
+    test('rejects when the call is aborted', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const controller = new AbortController();
+      const call = client.callTool('slow', { steps: 10, delay: 50 }, undefined, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 30);
+
+      await expect(call).rejects.toThrow();
+
+      // The connection is still usable after the cancellation
+      const result = await client.callTool('echo', { text: 'still here' });
+      expect(result.structuredContent).toEqual({ text: 'still here' });
+    });
+
+    test('applies per-tool timeouts from the server config', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ toolTimeouts: { slow: 50 } }));
+
+      await expect(client.callTool('slow', { steps: 1, delay: 200 })).rejects.toThrow('Request timed out');
+    });
+
+    test('resets the timeout when progress arrives', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ toolTimeout: 150 }));
+
+      const result = await client.callTool('slow', { steps: 4, delay: 60 }, undefined, { onProgress: () => {} });
+      expect(result.content[0]?.text).toBe('done');
+    });
+  });
+
+  describe('schema validation', () => {
+    test('returns a tool error for arguments that do not match the input schema', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const result = await client.callTool('echo', { text: 42 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Invalid arguments for tool echo');
+      expect(result.content[0]?.text).toContain('arguments.text should be string');
+    });
+
+    test('reports missing required arguments', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const result = await client.callTool('echo', {});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain("should have required property 'text'");
+    });
+
+    test('keeps the output schema and accepts matching structured content', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const tool = (await client.listTools()).find(t => t.name === 'measure');
+      expect(tool?.outputSchema?.required).toEqual(['value', 'unit']);
+
+      const result = await client.callTool('measure', {});
+      expect(result.isError).toBeUndefined();
+      expect(result.structuredContent).toEqual({ value: 42, unit: 'cm' });
+    });
+
+    test('returns a tool error for structured content that does not match the output schema', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const result = await client.callTool('measure', { malformed: true });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toBeUndefined();
+      expect(result.content[0]?.text).toContain('measure');
+    });
+  });
+
+  describe('tool approval', () => {
+    test('preserves tool annotations', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const tools = await client.listTools();
+      expect(tools.find(tool => tool.name === 'echo')?.annotations).toEqual({ readOnlyHint: true });
+      expect(tools.find(tool => tool.name === 'crash')?.annotations).toEqual({ destructiveHint: true });
+    });
+
+    test('requires approval for destructive tools by default', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      expect(client.requiresApproval('crash')).toBe(true);
+      expect(client.requiresApproval('echo')).toBe(false);
+    });
+
+    test('treats tools as destructive unless annotated otherwise', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+      const tool = (name: string, annotations?: MCPToolAnnotations) => defineTool({
+        name,
+        inputSchema: { type: 'object', properties: {} },
+        annotations,
+        handler: () => ({}),
+      });
+      await client.registerTools([
+        tool('update_profile', { readOnlyHint: false }),
+        tool('add_note', { readOnlyHint: false, destructiveHint: false }),
+      ]);
+
+      expect(client.requiresApproval('slow')).toBe(true);
+      expect(client.requiresApproval('update_profile')).toBe(true);
+      expect(client.requiresApproval('add_note')).toBe(false);
+    });
+
+    test('applies the configured approval mode', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ approval: { mode: 'always' } }));
+      await client.connect(testServerConfig({
+        name: 'second',
+        approval: { mode: 'never' },
+        toolNaming: { strategy: 'prefix' },
+      }));
+
+      expect(client.requiresApproval('echo')).toBe(true);
+      expect(client.requiresApproval('second__crash')).toBe(false);
+    });
+
+    test('per-tool overrides win over the approval mode', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ approval: { tools: { crash: false, echo: true } } }));
+
+      expect(client.requiresApproval('crash')).toBe(false);
+      expect(client.requiresApproval('echo')).toBe(true);
+      expect(client.requiresApproval('unknown')).toBe(false);
+    });
+  });
+
+  describe('request headers', () => {
+    test('forwards allowlisted headers in _meta instead of the arguments', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ forwardHeaders: ['authorization'] }));
+
+      const result = await client.callTool('whoami', { id: 1 }, {
+        Authorization: 'Bearer component-token',
+        'X-Tracking': 'abc',
+      });
+
+      expect(result.structuredContent).toEqual({
+        args: { id: 1 },
+        headers: { Authorization: 'Bearer component-token' },
+      });
+    });
+
+    test('forwards no component headers without an allowlist', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const result = await client.callTool('whoami', {}, { Authorization: 'Bearer component-token' });
+
+      expect(result.structuredContent).toEqual({ args: {}, headers: null });
+    });
+
+    test('sends static credentials to stdio servers on every call', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({
+        auth: { bearerToken: 'server-token', headers: { 'X-API-Key': 'key' } },
+        forwardHeaders: ['Authorization', 'X-Request-Id'],
+      }));
+
+      const result = await client.callTool('whoami', {}, {
+        Authorization: 'Bearer component-token',
+        'X-Request-Id': 'req-1',
+      });
+
+      expect(result.structuredContent.headers).toEqual({
+        Authorization: 'Bearer server-token',
+        'X-API-Key': 'key',
+        'X-Request-Id': 'req-1',
+      });
+    });
+  });
+
+  describe('tool result caching', () => {
+    const calls = async (name: string, args: Record<string, unknown> = {}) =>
+      (await client.callTool(name, args)).structuredContent.calls;
+
+    test('does not cache without a cache policy', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      expect(await calls('counter')).toBe(1);
+      expect(await calls('counter')).toBe(2);
+    });
+
+    test('caches read-only tools by server, tool and normalized arguments', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ cache: true }));
+
+      expect(await calls('counter', { key: 'a', extra: 1 })).toBe(1);
+      expect(await calls('counter', { extra: 1, key: 'a' })).toBe(1);
+      expect(await calls('counter', { key: 'b' })).toBe(2);
+    });
+
+    test('expires entries after the tool TTL', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ cache: { tools: { counter: 20 } } }));
+
+      expect(await calls('counter')).toBe(1);
+      expect(await calls('counter')).toBe(1);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      expect(await calls('counter')).toBe(2);
+    });
+
+    test('per-tool overrides can disable caching', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ cache: { tools: { counter: false } } }));
+
+      expect(await calls('counter')).toBe(1);
+      expect(await calls('counter')).toBe(2);
+    });
+
+    test('a successful mutating call invalidates the server cache', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ cache: true }));
+
+      expect(await calls('counter')).toBe(1);
+      await client.callTool('whoami', {});
+      expect(await calls('counter')).toBe(2);
+    });
+
+    test('invalidates only the configured tools for a mutating call', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ cache: { invalidates: { whoami: ['measure'] } } }));
+
+      expect(await calls('counter')).toBe(1);
+      await client.callTool('whoami', {});
+      expect(await calls('counter')).toBe(1);
+
+      client.clearToolCache();
+      expect(await calls('counter')).toBe(2);
+    });
+  });
+
+  describe('call limits', () => {
+    test('queues calls over the concurrency limit and reports the queue', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ limits: { maxConcurrency: 1 } }));
+
+      const calls = [1, 2, 3].map(() => client.callTool('slow', { steps: 2, delay: 20 }));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(client.getServerStatus('test-server')?.queue).toMatchObject({ active: 1, queued: 2 });
+
+      const results = await Promise.all(calls);
+      expect(results.every(result => !result.isError)).toBe(true);
+      expect(client.getServerStatus('test-server')?.queue).toMatchObject({ active: 0, queued: 0 });
+      expect(client.getServerStatus('test-server')?.queue?.averageWait).toBeGreaterThan(0);
+    });
+
+    test('reports no queue for servers without limits', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      expect(client.getServerStatus('test-server')?.queue).toBeUndefined();
+    });
+
+    test('rejects queued calls when the server is disconnected', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ limits: { maxConcurrency: 1 } }));
+
+      const running = client.callTool('slow', { steps: 2, delay: 20 }).catch(() => {});
+      const queued = client.callTool('echo', { text: 'hi' });
+      await client.disconnect('test-server');
+
+      await expect(queued).rejects.toThrow('Server test-server disconnected');
+      await running;
+    });
+  });
+
+  describe('server logs', () => {
+    const waitForLog = (predicate: (entry: MCPLogEntry) => boolean) =>
+      new Promise<MCPLogEntry>(resolve => {
+        const onLog = (entry: MCPLogEntry) => {
+          if (!predicate(entry)) return;
+          client.off('log', onLog);
+          resolve(entry);
+        };
+        client.on('log', onLog);
+      });
+
+    test('captures logging notifications with their level', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const logged = waitForLog(entry => entry.source === 'notification');
+      await client.callTool('log', { level: 'error', message: 'Payment API returned 502' });
+
+      expect(await logged).toMatchObject({
+        serverName: 'test-server',
+        level: 'error',
+        logger: 'test-server',
+        message: 'Payment API returned 502',
+      });
+    });
+
+    test('captures stderr lines of stdio servers', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const logged = waitForLog(entry => entry.source === 'stderr' && entry.message.includes('disk almost full'));
+      await client.callTool('log', { level: 'warning', message: 'disk almost full' });
+
+      expect((await logged).message).toBe('stderr: disk almost full');
+    });
+
+    test('filters logs by server, level and search text', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      const lastNotification = waitForLog(entry => entry.source === 'notification' && entry.message === 'cart 7 not found');
+      await client.callTool('log', { level: 'info', message: 'listing products' });
+      await client.callTool('log', { level: 'error', message: 'cart 7 not found' });
+      await lastNotification;
+
+      const errors = client.getLogs({ serverName: 'test-server', level: 'error' });
+      expect(errors.map(entry => entry.message)).toEqual(['cart 7 not found']);
+
+      const searched = client.getLogs({ search: 'PRODUCTS' });
+      expect(searched.map(entry => entry.message)).toContain('listing products');
+      expect(client.getLogs({ serverName: 'other' })).toEqual([]);
+    });
+
+    test('sets the server log level and keeps it', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig());
+
+      await client.setLogLevel('test-server', 'error');
+      const logged = waitForLog(entry => entry.source === 'notification');
+      await client.callTool('log', { level: 'info', message: 'too chatty' });
+      await client.callTool('log', { level: 'error', message: 'worth knowing' });
+
+      expect((await logged).message).toBe('worth knowing');
+    });
+
+    test('applies the configured log level on connect', async () => {
+      client = new MCPClient();
+      await client.connect(testServerConfig({ logLevel: 'critical' }));
+
+      const logged = waitForLog(entry => entry.source === 'notification');
+      await client.callTool('log', { level: 'error', message: 'filtered out' });
+      await client.callTool('log', { level: 'critical', message: 'kept' });
+
+      expect((await logged).message).toBe('kept');
+    });
+
+    test('rejects setting the level of unknown servers', async () => {
+      client = new MCPClient();
+
+      await expect(client.setLogLevel('missing', 'debug')).rejects.toThrow('Server missing not connected');
+    });
+  });
+
+  describe('lazy servers', () => {
+    const lazyServerConfig = (overrides: Partial<MCPServerConfig> = {}) =>
+      testServerConfig({ name: 'lazy-server', lazy: true, idleTimeout: 100, ...overrides });
+
+    const toolNames = async () => (await client.listTools()).map(tool => tool.name);
+
+    beforeEach(() => {
+      deleteToolList('lazy-server');
+    });
+
+    afterEach(async () => {
+      if (client.getServerStatus('lazy-server')) {
+        await client.disconnect('lazy-server');
+      }
+    });
+
+    test('lists tools without leaving the server running', async () => {
+      client = new MCPClient();
+      await client.connect(lazyServerConfig());
+
+      expect(client.getServerStatus('lazy-server')?.state).toBe('idle');
+      expect(client.isConnected('lazy-server')).toBe(false);
+      expect(await toolNames()).toContain('echo');
+    });
+
+    test('starts on the first call and stops after the idle timeout', async () => {
+      client = new MCPClient();
+      await client.connect(lazyServerConfig());
+
+      const first = await client.callTool('counter', {});
+      expect(first.structuredContent).toEqual({ calls: 1 });
+      expect(client.getServerStatus('lazy-server')?.state).toBe('ready');
+
+      await waitForState(client, 'lazy-server', 'idle');
+      expect(client.isConnected('lazy-server')).toBe(false);
+      expect(await toolNames()).toContain('counter');
+
+      // A new process counts from the start again
+      const afterRestart = await client.callTool('counter', {});
+      expect(afterRestart.structuredContent).toEqual({ calls: 1 });
+    });
+
+    test('starts once for concurrent calls', async () => {
+      client = new MCPClient();
+      await client.connect(lazyServerConfig());
+
+      const results = await Promise.all([client.callTool('counter', {}), client.callTool('counter', {})]);
+      expect(results.map(result => (result.structuredContent as { calls: number }).calls).sort()).toEqual([1, 2]);
+    });
+
+    test('keeps running while a call is in flight', async () => {
+      client = new MCPClient();
+      await client.connect(lazyServerConfig());
+
+      const slow = client.callTool('slow', { steps: 3, delay: 60 });
+      await client.callTool('echo', { text: 'quick' });
+
+      expect((await slow).isError).toBeFalsy();
+      expect(client.isConnected('lazy-server')).toBe(true);
+    });
+
+    test('reuses the tool list saved by an earlier session', async () => {
+      client = new MCPClient();
+      await client.connect(lazyServerConfig());
+      await client.disconnect('lazy-server');
+
+      const stored = getStoredToolList('lazy-server')!;
+      saveToolList('lazy-server', stored.fingerprint, [{ name: 'saved_tool', inputSchema: { type: 'object' } }]);
+
+      client = new MCPClient();
+      await client.connect(lazyServerConfig());
+      expect(await toolNames()).toEqual(['saved_tool']);
+    });
+
+    test('fetches the tool list again when the launch settings change', async () => {
+      saveToolList('lazy-server', 'settings-of-another-version', [{ name: 'saved_tool', inputSchema: { type: 'object' } }]);
+
+      client = new MCPClient();
+      await client.connect(lazyServerConfig());
+      expect(await toolNames()).not.toContain('saved_tool');
+      expect(await toolNames()).toContain('echo');
+    });
+
+    test('removes the tools of an idle server on disconnect', async () => {
+      client = new MCPClient();
+      await client.connect(lazyServerConfig());
+      await client.disconnect('lazy-server');
+
+      expect(await toolNames()).toEqual([]);
+      expect(client.getServerStatus('lazy-server')).toBeUndefined();
+    });
+  });
+});
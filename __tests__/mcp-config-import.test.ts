@@ -0,0 +1,169 @@
+/**
+ * Tests for mcp-config-import.ts
+ * Tests converting Claude Desktop and VS Code MCP configs
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { importMCPServers, parseJSONC } from '../src/lib/mcp-config-import';
+import { validateMCPConfigFile } from '../src/lib/mcp-config-schema';
+
+describe('MCP Config Import', () => {
+  describe('Claude Desktop', () => {
+    test('imports command, args and env', () => {
+      const imported = importMCPServers({
+        mcpServers: {
+          filesystem: {
+            command: 'npx',
+            args: ['-y', '@modelcontextprotocol/server-filesystem', '/Users/me/Desktop'],
+            env: { LOG_LEVEL: 'debug' },
+          },
+        },
+        globalShortcut: 'Ctrl+Space',
+      });
+
+      expect(imported.format).toBe('claude-desktop');
+      expect(imported.servers).toEqual({
+        filesystem: {
+          command: 'npx',
+          args: ['-y', '@modelcontextprotocol/server-filesystem', '/Users/me/Desktop'],
+          env: { LOG_LEVEL: 'debug' },
+        },
+      });
+      expect(imported.warnings).toEqual([]);
+    });
+
+    test('keeps ${...} literal, as Claude Desktop does', () => {
+      const imported = importMCPServers({
+        mcpServers: { shell: { command: 'sh', args: ['-c', 'echo ${HOME}'] } },
+      });
+
+      expect(imported.servers.shell?.args).toEqual(['-c', 'echo $${HOME}']);
+    });
+
+    test('warns about unsupported fields and server names', () => {
+      const imported = importMCPServers({
+        mcpServers: {
+          github: { command: 'github-mcp', disabled: true },
+          local: { command: 'local-mcp' },
+          broken: 'npx broken',
+        },
+      });
+
+      expect(Object.keys(imported.servers)).toEqual(['github']);
+      expect(imported.warnings).toEqual([
+        'mcpServers.github.disabled: not supported, skipped',
+        'mcpServers.local: "local" is reserved for tools registered in-process with registerTools(), skipped',
+        'mcpServers.broken: not an object, skipped',
+      ]);
+    });
+  });
+
+  describe('VS Code', () => {
+    const vscodeConfig = {
+      inputs: [
+        { type: 'promptString', id: 'github-token', description: 'GitHub personal access token', password: true },
+      ],
+      servers: {
+        github: {
+          type: 'http',
+          url: 'https://api.githubcopilot.com/mcp/',
+          headers: { Authorization: 'Bearer ${input:github-token}' },
+        },
+        notes: {
+          type: 'stdio',
+          command: 'node',
+          args: ['${workspaceFolder}/servers/notes.js', '--root', '${userHome}/notes'],
+          env: { NOTES_KEY: '${env:NOTES_KEY}' },
+        },
+      },
+    };
+
+    test('imports servers and translates variables', () => {
+      const imported = importMCPServers(vscodeConfig, { workspaceFolder: 'tools' });
+
+      expect(imported.format).toBe('vscode');
+      expect(imported.servers).toEqual({
+        github: {
+          transport: 'http',
+          url: 'https://api.githubcopilot.com/mcp/',
+          headers: { Authorization: 'Bearer ${GITHUB_TOKEN}' },
+        },
+        notes: {
+          transport: 'stdio',
+          command: 'node',
+          args: ['tools/servers/notes.js', '--root', '${HOME}/notes'],
+          env: { NOTES_KEY: '${NOTES_KEY}' },
+        },
+      });
+      expect(validateMCPConfigFile({ mcpServers: imported.servers })).toEqual([]);
+    });
+
+    test('tells where to set values VS Code would prompt for', () => {
+      const imported = importMCPServers(vscodeConfig);
+
+      expect(imported.warnings).toEqual([
+        "inputs.github-token: VS Code prompts for this value, open-apps-sdk doesn't; set GITHUB_TOKEN in .env instead (GitHub personal access token)",
+      ]);
+    });
+
+    test('warns about unsupported fields, types and variables', () => {
+      const imported = importMCPServers({
+        servers: {
+          api: {
+            type: 'stdio',
+            command: 'node',
+            args: ['${config:editor.fontSize}'],
+            envFile: '${workspaceFolder}/.env',
+            dev: { watch: 'src/**/*.ts' },
+          },
+          remote: { type: 'websocket', url: 'wss://mcp.example.com' },
+        },
+      });
+
+      expect(imported.warnings).toEqual([
+        'servers.api.args: ${config:editor.fontSize} has no equivalent and was left as is; replace it before loading',
+        'servers.api.envFile: per-server env files are not supported, skipped; move its variables to the .env file',
+        'servers.api.dev: not supported, skipped',
+        'servers.remote.type: "websocket" is not supported, skipped',
+      ]);
+    });
+
+    test('reads the mcp section of settings.json', () => {
+      const imported = importMCPServers({
+        'editor.fontSize': 14,
+        mcp: { servers: { notes: { command: 'notes-mcp' } } },
+      });
+
+      expect(imported.servers).toEqual({ notes: { command: 'notes-mcp' } });
+    });
+  });
+
+  test('rejects files without servers', () => {
+    expect(() => importMCPServers({ servers: [] })).toThrow(
+      'Not a Claude Desktop or VS Code MCP config: expected "mcpServers" or "servers"'
+    );
+  });
+
+  describe('parseJSONC', () => {
+    test('ignores comments and trailing commas', () => {
+      const text = `{
+        // Servers for this workspace
+        "servers": {
+          "notes": { "command": "notes-mcp", "args": ["--verbose",], }, /* local */
+        },
+      }`;
+
+      expect(parseJSONC(text)).toEqual({ servers: { notes: { command: 'notes-mcp', args: ['--verbose'] } } });
+    });
+
+    test('leaves comment markers and commas inside strings alone', () => {
+      const text = '{ "url": "https://example.com/mcp", "text": "a,]", "quote": "say \\"hi\\" // not a comment" }';
+
+      expect(parseJSONC(text)).toEqual({
+        url: 'https://example.com/mcp',
+        text: 'a,]',
+        quote: 'say "hi" // not a comment',
+      });
+    });
+  });
+});
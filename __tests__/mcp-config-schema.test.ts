@@ -0,0 +1,130 @@
+/**
+ * Tests for mcp-config-schema.ts
+ * Tests validation of whole mcp.config.json files
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { validateMCPConfigFile } from '../src/lib/mcp-config-schema';
+
+const validFile = {
+  _comment: 'Example servers',
+  envFile: '.env.mcp',
+  mcpServers: {
+    weather: {
+      command: 'bun',
+      args: ['examples/mcp-servers/weather-server.ts'],
+      env: { API_KEY: 'key' },
+      cache: { ttl: 300000, tools: { get_forecast: false } },
+      limits: { maxConcurrency: 2, rateLimit: { requests: 10, interval: 1000 } },
+      logLevel: 'warning',
+      lazy: true,
+      idleTimeout: 600000,
+    },
+    billing: {
+      url: 'https://mcp.example.com/mcp',
+      auth: { bearerToken: 'token' },
+      oauth: true,
+      forwardHeaders: ['X-Request-Id'],
+      approval: { mode: 'always', tools: { refund: true } },
+    },
+    search: {
+      transport: 'sse',
+      url: 'https://mcp.example.com/sse',
+      cache: true,
+      toolNaming: { strategy: 'prefix', prefix: 'web' },
+      enabled: false,
+    },
+  },
+};
+
+describe('MCP Config Schema', () => {
+  test('accepts a valid file', () => {
+    expect(validateMCPConfigFile(validFile)).toEqual([]);
+  });
+
+  test('requires mcpServers to be an object', () => {
+    expect(validateMCPConfigFile({})).toEqual(['(root): missing required key "mcpServers"']);
+    expect(validateMCPConfigFile({ mcpServers: [] })).toEqual(['mcpServers: must be object']);
+    expect(validateMCPConfigFile(null)).toEqual(['(root): must be object']);
+  });
+
+  test('reports unknown keys with suggestions', () => {
+    const errors = validateMCPConfigFile({
+      mcpServers: {
+        weather: { command: 'bun', healthCheckIntervall: 1000, color: 'blue' },
+      },
+      mcpservers: {},
+    });
+
+    expect(errors).toEqual([
+      '(root): unknown key "mcpservers", did you mean "mcpServers"?',
+      'mcpServers.weather: unknown key "healthCheckIntervall", did you mean "healthCheckInterval"?',
+      'mcpServers.weather: unknown key "color"',
+    ]);
+  });
+
+  test('requires transport-specific fields', () => {
+    const errors = validateMCPConfigFile({
+      mcpServers: {
+        stdio: { transport: 'stdio', args: ['server.ts'] },
+        remote: { transport: 'http' },
+        inferred: { args: ['server.ts'] },
+      },
+    });
+
+    expect(errors).toEqual([
+      'mcpServers.stdio: missing required key "command"',
+      'mcpServers.remote: missing required key "url"',
+      'mcpServers.inferred: missing required key "command"',
+    ]);
+  });
+
+  test('checks value types and enums with their paths', () => {
+    const errors = validateMCPConfigFile({
+      mcpServers: {
+        weather: {
+          command: 'bun',
+          args: ['server.ts', 42],
+          transport: 'websocket',
+          timeout: '5s',
+          cache: 'yes',
+          limits: { rateLimit: { requests: 10 } },
+        },
+      },
+    });
+
+    expect(errors).toEqual([
+      'mcpServers.weather.args[1]: must be string',
+      'mcpServers.weather.transport: must be one of "stdio", "sse", "http"',
+      'mcpServers.weather.timeout: must be integer',
+      'mcpServers.weather.cache: must be boolean or object',
+      'mcpServers.weather.limits.rateLimit: missing required key "interval"',
+    ]);
+  });
+
+  test('rejects reserved server names', () => {
+    const errors = validateMCPConfigFile({
+      mcpServers: {
+        local: { command: 'bun' },
+        'my__server': { command: 'bun' },
+      },
+    });
+
+    expect(errors).toEqual([
+      'mcpServers.local: "local" is reserved for tools registered in-process with registerTools()',
+      'mcpServers.my__server: Server names must not contain "__", which separates prefixes from tool names',
+    ]);
+  });
+
+  test('rejects tool prefixes containing the separator', () => {
+    const errors = validateMCPConfigFile({
+      mcpServers: {
+        weather: { command: 'bun', toolNaming: { strategy: 'prefix', prefix: 'acme__weather' } },
+      },
+    });
+
+    expect(errors).toEqual([
+      'mcpServers.weather.toolNaming.prefix: must not contain "__", which separates prefixes from tool names',
+    ]);
+  });
+});
@@ -3,8 +3,11 @@
  * Tests MCP configuration validation
  */
 
-import { describe, test, expect } from 'bun:test';
-import { validateMCPConfig } from '../src/lib/mcp-config';
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadMCPConfig, validateMCPConfig, diffMCPConfigs, watchMCPConfig, explainMCPConfig, mcpConfigLayers } from '../src/lib/mcp-config';
 import type { MCPServerConfig } from '../src/lib/types';
 
 describe('MCP Config', () => {
@@ -68,7 +71,7 @@ describe('MCP Config', () => {
       };
 
       const errors = validateMCPConfig(config);
-      expect(errors).toContain('Transport must be either "stdio" or "sse"');
+      expect(errors).toContain('Transport must be one of "stdio", "sse" or "http"');
     });
 
     test('returns multiple errors', () => {
@@ -83,14 +86,13 @@ describe('MCP Config', () => {
       expect(errors).toHaveLength(3);
       expect(errors).toContain('Server name is required');
       expect(errors).toContain('Command is required');
-      expect(errors).toContain('Transport must be either "stdio" or "sse"');
+      expect(errors).toContain('Transport must be one of "stdio", "sse" or "http"');
     });
 
     test('accepts sse transport', () => {
       const config: MCPServerConfig = {
         name: 'test-server',
-        command: 'bun',
-        args: [],
+        url: 'https://mcp.example.com/sse',
         transport: 'sse'
       };
 
@@ -98,6 +100,35 @@ describe('MCP Config', () => {
       expect(errors).toHaveLength(0);
     });
 
+    test('accepts http transport without a command', () => {
+      const config: MCPServerConfig = {
+        name: 'test-server',
+        url: 'https://mcp.example.com/mcp',
+        transport: 'http'
+      };
+
+      expect(validateMCPConfig(config)).toHaveLength(0);
+    });
+
+    test('requires a url for remote transports', () => {
+      const config: MCPServerConfig = {
+        name: 'test-server',
+        transport: 'http'
+      };
+
+      expect(validateMCPConfig(config)).toEqual(['URL is required for the http transport']);
+    });
+
+    test('rejects reserved server names', () => {
+      const config: MCPServerConfig = {
+        name: 'local',
+        command: 'bun',
+        transport: 'stdio'
+      };
+
+      expect(validateMCPConfig(config)[0]).toContain('"local" is reserved');
+    });
+
     test('accepts stdio transport', () => {
       const config: MCPServerConfig = {
         name: 'test-server',
@@ -141,4 +172,394 @@ describe('MCP Config', () => {
       expect(validateMCPConfig(ecommerceServer)).toHaveLength(0);
     });
   });
-});
\ No newline at end of file
+
+  describe('loadMCPConfig', () => {
+    const originalCwd = process.cwd();
+    let tempDir: string;
+
+    const writeConfig = (config: unknown) => {
+      writeFileSync(join(tempDir, 'mcp.config.json'), JSON.stringify(config));
+    };
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'mcp-config-'));
+      process.chdir(tempDir);
+      // Keep the real ~/.open-apps-sdk out of the tests
+      process.env.OPEN_APPS_SDK_HOME = join(tempDir, 'home');
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      rmSync(tempDir, { recursive: true, force: true });
+      delete process.env.OPEN_APPS_SDK_HOME;
+      delete process.env.MCP_CONFIG;
+    });
+
+    test('returns empty list when config file is missing', async () => {
+      const servers = await loadMCPConfig();
+      expect(servers).toEqual([]);
+    });
+
+    test('loads stdio servers with default transport', async () => {
+      writeConfig({
+        mcpServers: {
+          weather: { command: 'bun', args: ['weather-server.ts'] },
+        },
+      });
+
+      const servers = await loadMCPConfig();
+      expect(servers).toHaveLength(1);
+      expect(servers[0]).toMatchObject({
+        name: 'weather',
+        command: 'bun',
+        args: ['weather-server.ts'],
+        transport: 'stdio',
+      });
+    });
+
+    test('loads url, headers and timeout for remote servers', async () => {
+      writeConfig({
+        mcpServers: {
+          shared: {
+            transport: 'sse',
+            url: 'https://mcp.example.com/sse',
+            headers: { 'X-Team': 'platform' },
+            timeout: 5000,
+          },
+        },
+      });
+
+      const servers = await loadMCPConfig();
+      expect(servers[0]).toMatchObject({
+        name: 'shared',
+        transport: 'sse',
+        url: 'https://mcp.example.com/sse',
+        headers: { 'X-Team': 'platform' },
+        timeout: 5000,
+      });
+    });
+
+    test('defaults to http transport when only a url is given', async () => {
+      writeConfig({
+        mcpServers: {
+          remote: { url: 'https://mcp.example.com/mcp' },
+        },
+      });
+
+      const servers = await loadMCPConfig();
+      expect(servers[0]?.transport).toBe('http');
+    });
+
+    test('loads static credentials and the forwarded header allowlist', async () => {
+      writeConfig({
+        mcpServers: {
+          billing: {
+            url: 'https://mcp.example.com/mcp',
+            auth: { bearerToken: 'token' },
+            forwardHeaders: ['X-Request-Id'],
+          },
+        },
+      });
+
+      const servers = await loadMCPConfig();
+      expect(servers[0]).toMatchObject({
+        auth: { bearerToken: 'token' },
+        forwardHeaders: ['X-Request-Id'],
+      });
+    });
+
+    test('loads enabled, lazy and idle timeout settings', async () => {
+      writeConfig({
+        mcpServers: {
+          reports: { command: 'bun', lazy: true, idleTimeout: 600000 },
+          legacy: { command: 'bun', enabled: false },
+        },
+      });
+
+      const servers = await loadMCPConfig();
+      expect(servers[0]).toMatchObject({ name: 'reports', lazy: true, idleTimeout: 600000 });
+      expect(servers[1]).toMatchObject({ name: 'legacy', enabled: false });
+    });
+
+    test('interpolates environment variables and .env values', async () => {
+      writeFileSync(join(tempDir, '.env'), 'MCP_TEST_TOKEN=from-dotenv\nMCP_TEST_HOST=dotenv.example.com\n');
+      process.env.MCP_TEST_HOST = 'env.example.com';
+      writeConfig({
+        mcpServers: {
+          billing: {
+            url: 'https://${MCP_TEST_HOST}/mcp',
+            auth: { bearerToken: '${MCP_TEST_TOKEN}' },
+            timeout: 5000,
+            env: { REGION: '${MCP_TEST_REGION:-eu-west}' },
+          },
+        },
+      });
+
+      try {
+        const servers = await loadMCPConfig();
+        expect(servers[0]).toMatchObject({
+          url: 'https://env.example.com/mcp',
+          auth: { bearerToken: 'from-dotenv' },
+          timeout: 5000,
+          env: { REGION: 'eu-west' },
+        });
+      } finally {
+        delete process.env.MCP_TEST_HOST;
+      }
+    });
+
+    test('loads the env file named in the config', async () => {
+      writeFileSync(join(tempDir, 'secrets.env'), 'MCP_TEST_KEY=from-secrets');
+      writeConfig({
+        envFile: 'secrets.env',
+        mcpServers: {
+          weather: { command: 'bun', env: { API_KEY: '${MCP_TEST_KEY}' } },
+        },
+      });
+
+      const servers = await loadMCPConfig();
+      expect(servers[0]?.env).toEqual({ API_KEY: 'from-secrets' });
+    });
+
+    test('rejects invalid files with the path of each problem', async () => {
+      writeConfig({
+        mcpServers: {
+          weather: { comand: 'bun' },
+        },
+      });
+
+      await expect(loadMCPConfig()).rejects.toThrow(
+        'Invalid mcp.config.json:\n- mcpServers.weather: unknown key "comand", did you mean "command"?\n- mcpServers.weather: missing required key "command"'
+      );
+    });
+
+    test('rejects files without mcpServers', async () => {
+      writeConfig({ servers: {} });
+
+      await expect(loadMCPConfig()).rejects.toThrow('(root): missing required key "mcpServers"');
+    });
+
+    test('skips only the servers with missing variables', async () => {
+      writeConfig({
+        mcpServers: {
+          weather: { command: 'bun', env: { API_KEY: '${MCP_TEST_MISSING_KEY}' } },
+          billing: { url: 'https://${MCP_TEST_MISSING_HOST}/mcp' },
+          files: { command: 'bun' },
+        },
+      });
+
+      const servers = await loadMCPConfig();
+      expect(servers.map(server => server.name)).toEqual(['files']);
+    });
+
+    test('does not resolve variables of disabled servers', async () => {
+      writeConfig({
+        mcpServers: {
+          legacy: { command: 'bun', enabled: false, env: { API_KEY: '${MCP_TEST_MISSING_KEY}' } },
+        },
+      });
+
+      const servers = await loadMCPConfig();
+      expect(servers[0]).toMatchObject({ name: 'legacy', enabled: false, env: { API_KEY: '${MCP_TEST_MISSING_KEY}' } });
+    });
+  });
+
+  describe('config layers', () => {
+    const originalCwd = process.cwd();
+    const originalNodeEnv = process.env.NODE_ENV;
+    let tempDir: string;
+
+    const write = (path: string, config: unknown) => {
+      mkdirSync(join(path, '..'), { recursive: true });
+      writeFileSync(path, JSON.stringify(config));
+    };
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'mcp-config-layers-'));
+      process.chdir(tempDir);
+      process.env.OPEN_APPS_SDK_HOME = join(tempDir, 'home');
+      process.env.NODE_ENV = 'staging';
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      rmSync(tempDir, { recursive: true, force: true });
+      delete process.env.OPEN_APPS_SDK_HOME;
+      delete process.env.MCP_CONFIG;
+      process.env.NODE_ENV = originalNodeEnv;
+    });
+
+    test('lists layers from lowest to highest precedence', () => {
+      process.env.MCP_CONFIG = 'configs/ci.json';
+
+      expect(mcpConfigLayers()).toEqual([
+        { source: 'user', path: join(tempDir, 'home', 'mcp.config.json'), required: false },
+        { source: 'project', path: join(tempDir, 'mcp.config.json'), required: false },
+        { source: 'environment', path: join(tempDir, 'mcp.config.staging.json'), required: false },
+        { source: 'override', path: join(tempDir, 'configs', 'ci.json'), required: true },
+      ]);
+    });
+
+    test('merges servers from every layer, later layers winning field by field', async () => {
+      write(join(tempDir, 'home', 'mcp.config.json'), {
+        mcpServers: {
+          notes: { command: 'notes-server' },
+          weather: { command: 'bun', args: ['weather.ts', '--verbose'], env: { UNITS: 'metric', REGION: 'eu' } },
+        },
+      });
+      write(join(tempDir, 'mcp.config.json'), {
+        mcpServers: {
+          weather: { args: ['weather.ts'], env: { UNITS: 'imperial' } },
+        },
+      });
+      write(join(tempDir, 'mcp.config.staging.json'), {
+        mcpServers: {
+          weather: { timeout: 5000 },
+        },
+      });
+
+      const servers = await loadMCPConfig();
+      expect(servers.map(server => server.name)).toEqual(['notes', 'weather']);
+      expect(servers[1]).toMatchObject({
+        command: 'bun',
+        // Arrays replace rather than concatenate
+        args: ['weather.ts'],
+        env: { UNITS: 'imperial', REGION: 'eu' },
+        timeout: 5000,
+      });
+    });
+
+    test('removes a server set to null by a later layer', async () => {
+      write(join(tempDir, 'home', 'mcp.config.json'), {
+        mcpServers: { notes: { command: 'notes-server' }, weather: { command: 'bun' } },
+      });
+      write(join(tempDir, 'mcp.config.json'), { mcpServers: { notes: null } });
+
+      const servers = await loadMCPConfig();
+      expect(servers.map(server => server.name)).toEqual(['weather']);
+    });
+
+    test('applies the MCP_CONFIG file last', async () => {
+      write(join(tempDir, 'mcp.config.json'), { mcpServers: { weather: { command: 'bun' } } });
+      write(join(tempDir, 'mcp.config.staging.json'), { mcpServers: { weather: { command: 'node' } } });
+      write(join(tempDir, 'ci', 'mcp.json'), { mcpServers: { weather: { command: 'deno' } } });
+      process.env.MCP_CONFIG = 'ci/mcp.json';
+
+      const servers = await loadMCPConfig();
+      expect(servers[0]?.command).toBe('deno');
+    });
+
+    test('fails when MCP_CONFIG points to a missing file', async () => {
+      write(join(tempDir, 'mcp.config.json'), { mcpServers: {} });
+      process.env.MCP_CONFIG = 'missing.json';
+
+      await expect(loadMCPConfig()).rejects.toThrow(`MCP_CONFIG points to ${join(tempDir, 'missing.json')}, which does not exist`);
+    });
+
+    test('validates the merged config and names the merged files', async () => {
+      write(join(tempDir, 'home', 'mcp.config.json'), { mcpServers: { search: { transport: 'http' } } });
+      write(join(tempDir, 'mcp.config.json'), { mcpServers: { weather: { command: 'bun' } } });
+
+      await expect(loadMCPConfig()).rejects.toThrow(
+        `Invalid mcp.config.json (merged from ${join(tempDir, 'home', 'mcp.config.json')}, ${join(tempDir, 'mcp.config.json')}):\n- mcpServers.search: missing required key "url"`
+      );
+    });
+
+    test('accepts a server completed by a later layer', async () => {
+      write(join(tempDir, 'mcp.config.json'), { mcpServers: { search: { transport: 'http' } } });
+      write(join(tempDir, 'mcp.config.staging.json'), { mcpServers: { search: { url: 'https://staging.example.com/mcp' } } });
+
+      const servers = await loadMCPConfig();
+      expect(servers[0]).toMatchObject({ name: 'search', transport: 'http', url: 'https://staging.example.com/mcp' });
+    });
+
+    test('reads envFile relative to the layer that sets it', async () => {
+      write(join(tempDir, 'home', 'mcp.config.json'), { envFile: 'secrets.env', mcpServers: {} });
+      writeFileSync(join(tempDir, 'home', 'secrets.env'), 'MCP_TEST_LAYER_TOKEN=from-user-env');
+      write(join(tempDir, 'mcp.config.json'), {
+        mcpServers: { weather: { command: 'bun', env: { TOKEN: '${MCP_TEST_LAYER_TOKEN}' } } },
+      });
+
+      const servers = await loadMCPConfig();
+      expect(servers[0]?.env).toEqual({ TOKEN: 'from-user-env' });
+    });
+
+    test('explains which file set each field', () => {
+      const userConfig = join(tempDir, 'home', 'mcp.config.json');
+      const projectConfig = join(tempDir, 'mcp.config.json');
+      write(userConfig, { mcpServers: { weather: { command: 'bun', args: ['weather.ts'], env: { UNITS: 'metric' } } } });
+      write(projectConfig, { mcpServers: { weather: { env: { UNITS: 'imperial' } } } });
+
+      expect(explainMCPConfig()).toEqual([
+        { path: 'mcpServers.weather.command', value: 'bun', origin: userConfig },
+        { path: 'mcpServers.weather.args', value: ['weather.ts'], origin: userConfig },
+        { path: 'mcpServers.weather.env.UNITS', value: 'imperial', origin: projectConfig },
+      ]);
+    });
+
+    test('redacts resolved secrets when explaining', () => {
+      process.env.MCP_TEST_LAYER_SECRET = 'layer-secret-value';
+      try {
+        write(join(tempDir, 'mcp.config.json'), {
+          mcpServers: { weather: { command: 'bun', env: { API_KEY: '${MCP_TEST_LAYER_SECRET}' } } },
+        });
+
+        expect(explainMCPConfig()).toContainEqual({
+          path: 'mcpServers.weather.env.API_KEY',
+          value: '[redacted]',
+          origin: join(tempDir, 'mcp.config.json'),
+        });
+      } finally {
+        delete process.env.MCP_TEST_LAYER_SECRET;
+      }
+    });
+  });
+
+  describe('diffMCPConfigs', () => {
+    const weather: MCPServerConfig = { name: 'weather', command: 'bun', args: ['weather.ts'], transport: 'stdio' };
+    const shop: MCPServerConfig = { name: 'shop', command: 'bun', args: ['shop.ts'], transport: 'stdio' };
+
+    test('finds added, removed and changed servers', () => {
+      const search: MCPServerConfig = { name: 'search', url: 'https://mcp.example.com/mcp', transport: 'http' };
+      const diff = diffMCPConfigs([weather, shop], [{ ...weather, env: { API_KEY: 'new' } }, search]);
+
+      expect(diff.added.map(config => config.name)).toEqual(['search']);
+      expect(diff.removed).toEqual(['shop']);
+      expect(diff.changed).toEqual([{ ...weather, env: { API_KEY: 'new' } }]);
+    });
+
+    test('reports nothing for identical configs', () => {
+      expect(diffMCPConfigs([weather, shop], [{ ...shop }, { ...weather }])).toEqual({ added: [], removed: [], changed: [] });
+    });
+  });
+
+  describe('watchMCPConfig', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'mcp-config-watch-'));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('reports a burst of writes to the config file once', async () => {
+      const configPath = join(tempDir, 'mcp.config.json');
+      writeFileSync(configPath, '{"mcpServers": {}}');
+
+      let changes = 0;
+      const stop = watchMCPConfig(() => changes++, [configPath]);
+      try {
+        writeFileSync(join(tempDir, 'unrelated.json'), '{}');
+        writeFileSync(configPath, '{"mcpServers": {"a": {"command": "bun"}}}');
+        writeFileSync(configPath, '{"mcpServers": {"b": {"command": "bun"}}}');
+        await new Promise(resolve => setTimeout(resolve, 400));
+      } finally {
+        stop();
+      }
+
+      expect(changes).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for mcp-oauth.ts
+ * Tests the OAuth 2.1 flow against a local stand-in authorization server
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { MCPClient } from '../src/lib/mcp-client';
+import { deleteOAuthSession, getOAuthSession } from '../src/lib/database';
+import type { MCPServerConfig } from '../src/lib/types';
+import { startOAuthTestServer, type OAuthTestServer } from './fixtures/oauth-server';
+
+const SERVER_NAME = 'oauth-test';
+const REDIRECT_URL = 'http://localhost:3999/oauth/callback';
+
+describe('MCP OAuth', () => {
+  let oauthServer: OAuthTestServer;
+  let clients: MCPClient[];
+
+  const createClient = () => {
+    const client = new MCPClient();
+    client.setOAuthRedirectUrl(REDIRECT_URL);
+    clients.push(client);
+    return client;
+  };
+
+  const serverConfig = (): MCPServerConfig => ({
+    name: SERVER_NAME,
+    transport: 'http',
+    url: oauthServer.url,
+    oauth: true,
+    healthCheckInterval: 0,
+  });
+
+  // Plays the user's browser: consent is granted and the redirect carries the code back
+  const consent = async (authorizationUrl: string) => {
+    const response = await fetch(authorizationUrl, { redirect: 'manual' });
+    const callback = new URL(response.headers.get('location') || '');
+    return {
+      code: callback.searchParams.get('code') || '',
+      state: callback.searchParams.get('state') || '',
+    };
+  };
+
+  const authorize = async (client: MCPClient) => {
+    await client.connect(serverConfig()).catch(() => {});
+    const { code, state } = await consent(client.getServerStatus(SERVER_NAME)!.authorizationUrl!);
+    await client.finishAuthorization(state, code);
+  };
+
+  beforeEach(async () => {
+    deleteOAuthSession(SERVER_NAME);
+    oauthServer = await startOAuthTestServer();
+    clients = [];
+  });
+
+  afterEach(async () => {
+    for (const client of clients) {
+      for (const serverName of client.getConnectedServers()) {
+        await client.disconnect(serverName);
+      }
+    }
+    await oauthServer.close();
+    deleteOAuthSession(SERVER_NAME);
+  });
+
+  test('starts an authorization flow when the server answers 401', async () => {
+    const client = createClient();
+
+    await expect(client.connect(serverConfig())).rejects.toThrow();
+
+    const status = client.getServerStatus(SERVER_NAME);
+    expect(status?.state).toBe('unauthorized');
+    expect(oauthServer.registeredClients).toBe(1);
+
+    const authorizationUrl = new URL(status!.authorizationUrl!);
+    expect(authorizationUrl.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(authorizationUrl.searchParams.get('redirect_uri')).toBe(REDIRECT_URL);
+    expect(authorizationUrl.searchParams.get('state')).toBeTruthy();
+  });
+
+  test('exchanges the callback code for tokens and connects', async () => {
+    const client = createClient();
+    await authorize(client);
+
+    expect(client.getServerStatus(SERVER_NAME)?.state).toBe('ready');
+    expect(client.getServerStatus(SERVER_NAME)?.authorizationUrl).toBeUndefined();
+    expect((await client.listTools()).map(tool => tool.name)).toEqual(['secret']);
+
+    const result = await client.callTool('secret', {});
+    expect(result.content[0]?.text).toBe('top secret');
+
+    const session = getOAuthSession(SERVER_NAME);
+    expect(JSON.parse(session!.tokens!).access_token).toBeTruthy();
+    expect(session?.code_verifier).toBeNull();
+  });
+
+  test('refreshes expired access tokens automatically', async () => {
+    const client = createClient();
+    await authorize(client);
+
+    oauthServer.expireAccessTokens();
+    const result = await client.callTool('secret', {});
+
+    expect(result.content[0]?.text).toBe('top secret');
+    expect(oauthServer.tokenRequests).toEqual(['authorization_code', 'refresh_token']);
+  });
+
+  test('reuses persisted tokens for later connections', async () => {
+    await authorize(createClient());
+
+    const client = createClient();
+    await client.connect(serverConfig());
+
+    expect(client.getServerStatus(SERVER_NAME)?.state).toBe('ready');
+    expect(oauthServer.registeredClients).toBe(1);
+  });
+
+  test('rejects callbacks with an unknown state', async () => {
+    const client = createClient();
+
+    await expect(client.finishAuthorization('not-a-state', 'code')).rejects.toThrow('Unknown or expired authorization state');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for schema-validation.ts
+ * Tests tool argument and structured output validation
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  validateToolArguments,
+  validateStructuredContent,
+  validationErrorResult,
+} from '../src/lib/schema-validation';
+import type { MCPTool } from '../src/lib/types';
+
+const weatherTool: MCPTool = {
+  name: 'get_weather',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      location: { type: 'string' },
+      days: { type: 'integer', minimum: 1 },
+    },
+    required: ['location'],
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      temperature: { type: 'number' },
+    },
+    required: ['temperature'],
+  },
+};
+
+describe('Schema Validation', () => {
+  describe('validateToolArguments', () => {
+    test('accepts arguments that match the input schema', () => {
+      expect(validateToolArguments(weatherTool, { location: 'Paris', days: 3 })).toEqual([]);
+    });
+
+    test('reports every mismatch with its path', () => {
+      const errors = validateToolArguments(weatherTool, { days: 0 });
+
+      expect(errors).toContain("arguments should have required property 'location'");
+      expect(errors).toContain('arguments.days should be >= 1');
+    });
+
+    test('skips validation when the schema cannot be compiled', () => {
+      const tool: MCPTool = {
+        name: 'broken',
+        inputSchema: { type: 'object', properties: { value: { type: 'not-a-type' } } },
+      };
+
+      expect(validateToolArguments(tool, { value: 1 })).toEqual([]);
+    });
+  });
+
+  describe('validateStructuredContent', () => {
+    test('accepts anything when the tool has no output schema', () => {
+      const { outputSchema, ...tool } = weatherTool;
+      expect(validateStructuredContent(tool, { anything: true })).toEqual([]);
+    });
+
+    test('requires structured content when an output schema is declared', () => {
+      expect(validateStructuredContent(weatherTool, undefined)).toEqual([
+        'structuredContent is required by the output schema',
+      ]);
+    });
+
+    test('reports structured content that does not match the output schema', () => {
+      expect(validateStructuredContent(weatherTool, { temperature: 'warm' })).toEqual([
+        'structuredContent.temperature should be number',
+      ]);
+    });
+  });
+
+  describe('validationErrorResult', () => {
+    test('builds an error tool result listing the errors', () => {
+      const result = validationErrorResult('Invalid arguments for tool get_weather', ['a', 'b']);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toBe('Invalid arguments for tool get_weather:\n- a\n- b');
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for server-logs.ts
+ * Tests the log ring buffer and its queries
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { ServerLogBuffer, isLogLevel } from '../src/lib/server-logs';
+import type { MCPLogLevel } from '../src/lib/types';
+
+const entry = (serverName: string, message: string, level: MCPLogLevel = 'info') =>
+  ({ serverName, level, source: 'notification' as const, message });
+
+describe('Server Log Buffer', () => {
+  test('drops the oldest entries of a server beyond its capacity', () => {
+    const logs = new ServerLogBuffer(2);
+    logs.add(entry('shop', 'one'));
+    logs.add(entry('shop', 'two'));
+    logs.add(entry('shop', 'three'));
+    logs.add(entry('weather', 'sunny'));
+
+    expect(logs.query({ serverName: 'shop' }).map(log => log.message)).toEqual(['two', 'three']);
+    expect(logs.query({ serverName: 'weather' }).map(log => log.message)).toEqual(['sunny']);
+  });
+
+  test('merges servers in the order entries arrived', () => {
+    const logs = new ServerLogBuffer();
+    logs.add(entry('shop', 'first'));
+    logs.add(entry('weather', 'second'));
+    logs.add(entry('shop', 'third'));
+
+    expect(logs.query().map(log => log.message)).toEqual(['first', 'second', 'third']);
+  });
+
+  test('filters by minimum level', () => {
+    const logs = new ServerLogBuffer();
+    logs.add(entry('shop', 'debugging', 'debug'));
+    logs.add(entry('shop', 'careful', 'warning'));
+    logs.add(entry('shop', 'broken', 'critical'));
+
+    expect(logs.query({ level: 'warning' }).map(log => log.message)).toEqual(['careful', 'broken']);
+  });
+
+  test('tails with since and limit', () => {
+    const logs = new ServerLogBuffer();
+    const first = logs.add(entry('shop', 'one'));
+    logs.add(entry('shop', 'two'));
+    logs.add(entry('shop', 'three'));
+
+    expect(logs.query({ since: first.id }).map(log => log.message)).toEqual(['two', 'three']);
+    expect(logs.query({ limit: 1 }).map(log => log.message)).toEqual(['three']);
+  });
+
+  test('recognizes log levels', () => {
+    expect(isLogLevel('warning')).toBe(true);
+    expect(isLogLevel('verbose')).toBe(false);
+  });
+});
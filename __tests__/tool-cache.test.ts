@@ -0,0 +1,64 @@
+/**
+ * Tests for tool-cache.ts
+ * Tests cache keys, expiry and invalidation
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { ToolResultCache, cacheKey } from '../src/lib/tool-cache';
+import type { ToolCallResult } from '../src/lib/types';
+
+const result = (text: string): ToolCallResult => ({ content: [{ type: 'text', text }] });
+
+describe('Tool Result Cache', () => {
+  describe('cacheKey', () => {
+    test('ignores the order of object keys at any depth', () => {
+      expect(cacheKey('search', { q: 'shoes', filter: { size: 42, color: 'red' } }))
+        .toBe(cacheKey('search', { filter: { color: 'red', size: 42 }, q: 'shoes' }));
+    });
+
+    test('keeps array order significant', () => {
+      expect(cacheKey('search', { ids: [1, 2] })).not.toBe(cacheKey('search', { ids: [2, 1] }));
+    });
+
+    test('distinguishes tools and forwarded headers', () => {
+      expect(cacheKey('get_cart', { id: 1 })).not.toBe(cacheKey('get_carts', { id: 1 }));
+      expect(cacheKey('get_cart', { id: 1 }, { Authorization: 'a' }))
+        .not.toBe(cacheKey('get_cart', { id: 1 }, { Authorization: 'b' }));
+    });
+  });
+
+  describe('ToolResultCache', () => {
+    test('returns entries until they expire', async () => {
+      const cache = new ToolResultCache();
+      cache.set('shop', 'get_cart', 'key', result('cart'), 20);
+
+      expect(cache.get('shop', 'key')).toEqual(result('cart'));
+      await new Promise(resolve => setTimeout(resolve, 30));
+      expect(cache.get('shop', 'key')).toBeUndefined();
+    });
+
+    test('invalidates only the given tools on a server', () => {
+      const cache = new ToolResultCache();
+      cache.set('shop', 'get_cart', 'cart', result('cart'), 1000);
+      cache.set('shop', 'get_products', 'products', result('products'), 1000);
+      cache.set('other', 'get_cart', 'cart', result('other cart'), 1000);
+
+      cache.invalidate('shop', ['get_cart']);
+
+      expect(cache.get('shop', 'cart')).toBeUndefined();
+      expect(cache.get('shop', 'products')).toEqual(result('products'));
+      expect(cache.get('other', 'cart')).toEqual(result('other cart'));
+    });
+
+    test('invalidates everything on a server without a tool list', () => {
+      const cache = new ToolResultCache();
+      cache.set('shop', 'get_cart', 'cart', result('cart'), 1000);
+      cache.set('shop', 'get_products', 'products', result('products'), 1000);
+
+      cache.invalidate('shop');
+
+      expect(cache.get('shop', 'cart')).toBeUndefined();
+      expect(cache.get('shop', 'products')).toBeUndefined();
+    });
+  });
+});
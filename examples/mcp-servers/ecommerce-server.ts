@@ -52,6 +52,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
           },
         },
+        annotations: {
+          readOnlyHint: true,
+        },
         _meta: {
           componentId: 'product-list',
           componentAccessible: true,
@@ -72,6 +75,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
           required: ['id'],
         },
+        annotations: {
+          readOnlyHint: true,
+        },
         _meta: {
           componentId: 'product-detail',
           componentAccessible: true,
@@ -86,6 +92,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           type: 'object',
           properties: {},
         },
+        annotations: {
+          readOnlyHint: true,
+        },
         _meta: {
           toolInvoking: 'Fetching categories...',
           toolInvoked: 'Categories retrieved',
@@ -118,6 +127,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
           },
         },
+        annotations: {
+          readOnlyHint: true,
+        },
       },
       {
         name: 'get_cart',
@@ -132,6 +144,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
           required: ['id'],
         },
+        annotations: {
+          readOnlyHint: true,
+        },
         _meta: {
           componentId: 'cart-view',
           componentAccessible: true,
@@ -152,6 +167,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
           required: ['userId'],
         },
+        annotations: {
+          readOnlyHint: true,
+        },
         _meta: {
           componentId: 'user-carts',
           componentAccessible: true,
@@ -256,6 +274,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
           required: ['id'],
         },
+        annotations: {
+          destructiveHint: true,
+          idempotentHint: true,
+        },
         _meta: {
           toolInvoking: 'Deleting cart...',
           toolInvoked: 'Cart deleted',
@@ -280,6 +302,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
           },
         },
+        annotations: {
+          readOnlyHint: true,
+        },
       },
       {
         name: 'get_user',
@@ -294,6 +319,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
           required: ['id'],
         },
+        annotations: {
+          readOnlyHint: true,
+        },
         _meta: {
           componentId: 'user-profile',
           componentAccessible: true,
@@ -438,6 +466,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
           required: ['id'],
         },
+        annotations: {
+          destructiveHint: true,
+          idempotentHint: true,
+        },
       },
     ],
   };
@@ -50,6 +50,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
           required: ['location'],
         },
+        annotations: {
+          readOnlyHint: true,
+        },
         _meta: {
           componentId: 'weather-widget',
           componentAccessible: true,
@@ -70,6 +73,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
           required: ['location'],
         },
+        annotations: {
+          readOnlyHint: true,
+        },
       },
     ],
   };
@@ -5,10 +5,12 @@
  * Command line interface for managing Open Apps SDK projects
  */
 
-import { existsSync, readdirSync, statSync, mkdirSync, copyFileSync } from 'fs';
-import { resolve, dirname, join } from 'path';
+import { existsSync, readdirSync, statSync, mkdirSync, copyFileSync, readFileSync, writeFileSync } from 'fs';
+import { resolve, dirname, join, basename, relative } from 'path';
 import { spawn } from 'child_process';
 import { fileURLToPath } from 'url';
+import { loadMCPConfig, explainMCPConfig, mcpConfigLayers } from './lib/mcp-config';
+import { importMCPServers, parseJSONC } from './lib/mcp-config-import';
 
 // Handle __filename and __dirname for both ESM and CJS
 let __filename: string;
@@ -66,6 +68,15 @@ if (!command) {
     case 'setup':
       await handleSetup();
       break;
+    case 'validate':
+      await handleValidate();
+      break;
+    case 'config':
+      await handleConfig();
+      break;
+    case 'import':
+      await handleImport(args[1]);
+      break;
     case 'help':
     case '--help':
     case '-h':
@@ -122,7 +133,7 @@ PORT=3000
 NODE_ENV=development
 
 # LLM Provider Configuration
-# Supported providers: openai, anthropic, groq, ollama, lmstudio
+# Supported providers: openai, anthropic, gemini, groq, ollama, lmstudio
 LLM_PROVIDER=openai
 LLM_API_KEY=your-api-key-here
 LLM_BASE_URL=https://api.openai.com/v1
@@ -134,6 +145,12 @@ LLM_MODEL=gpt-4-turbo-preview
 # LLM_API_KEY=sk-ant-...
 # LLM_MODEL=claude-3-5-sonnet-20241022
 
+# For Google Gemini:
+# LLM_PROVIDER=gemini
+# LLM_API_KEY=AIza...
+# LLM_MODEL=gemini-2.5-flash
+# LLM_BASE_URL defaults to https://generativelanguage.googleapis.com/v1beta
+
 # For Groq:
 # LLM_PROVIDER=groq
 # LLM_API_KEY=gsk_...
@@ -428,7 +445,6 @@ async function handleStart() {
 
   // Check if required files exist
   const envPath = resolve(cwd, '.env');
-  const mcpConfigPath = resolve(cwd, 'mcp.config.json');
   const componentsConfigPath = resolve(cwd, 'components.config.js');
   const indexTsPath = resolve(cwd, 'index.ts');
 
@@ -437,7 +453,7 @@ async function handleStart() {
     process.exit(1);
   }
 
-  if (!existsSync(mcpConfigPath)) {
+  if (!hasMCPConfig()) {
     console.error('❌ mcp.config.json file not found. Run `open-apps-sdk init` first.');
     process.exit(1);
   }
@@ -447,6 +463,11 @@ async function handleStart() {
     process.exit(1);
   }
 
+  // Fail before building rather than starting with servers missing
+  if (!(await isMCPConfigValid())) {
+    process.exit(1);
+  }
+
   if (!existsSync(indexTsPath)) {
     console.error('❌ index.ts file not found. Run `open-apps-sdk init` first.');
     process.exit(1);
@@ -562,6 +583,122 @@ async function handleSetup() {
   });
 }
 
+async function handleValidate() {
+  if (!hasMCPConfig()) {
+    console.error('❌ mcp.config.json file not found. Run `open-apps-sdk init` first.');
+    process.exit(1);
+  }
+
+  if (!(await isMCPConfigValid())) {
+    process.exit(1);
+  }
+}
+
+// Print the merged config, one field per line with the file that set it
+async function handleConfig() {
+  if (!hasMCPConfig()) {
+    console.error('❌ mcp.config.json file not found. Run `open-apps-sdk init` first.');
+    process.exit(1);
+  }
+
+  let fields;
+  try {
+    fields = explainMCPConfig();
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  console.log('Config files, lowest precedence first:');
+  for (const layer of mcpConfigLayers()) {
+    console.log(`  ${layer.source.padEnd(11)} ${layer.path}${existsSync(layer.path) ? '' : ' (not found)'}`);
+  }
+
+  console.log('');
+  for (const field of fields) {
+    console.log(`${field.path} = ${JSON.stringify(field.value)}  # ${field.origin}`);
+  }
+}
+
+// Add the servers of a Claude Desktop or VS Code MCP config to mcp.config.json
+async function handleImport(source: string | undefined) {
+  if (!source) {
+    console.error('❌ Usage: open-apps-sdk import <claude_desktop_config.json | .vscode/mcp.json>');
+    process.exit(1);
+  }
+
+  const cwd = process.cwd();
+  const sourcePath = resolve(cwd, source);
+  if (!existsSync(sourcePath)) {
+    console.error(`❌ ${sourcePath} not found`);
+    process.exit(1);
+  }
+
+  // ${workspaceFolder} in .vscode/mcp.json is the folder containing .vscode
+  const sourceDir = dirname(sourcePath);
+  const workspaceFolder = basename(sourceDir) === '.vscode' ? dirname(sourceDir) : sourceDir;
+
+  let imported;
+  try {
+    imported = importMCPServers(parseJSONC(readFileSync(sourcePath, 'utf8')), {
+      workspaceFolder: relative(cwd, workspaceFolder) || '.',
+    });
+  } catch (error) {
+    console.error(`❌ Failed to import ${source}:`, error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const configPath = resolve(cwd, 'mcp.config.json');
+  let config;
+  try {
+    config = existsSync(configPath) ? JSON.parse(readFileSync(configPath, 'utf8')) : {};
+  } catch (error) {
+    console.error('❌ mcp.config.json is not valid JSON:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+  config.mcpServers ??= {};
+
+  const added: string[] = [];
+  const warnings = [...imported.warnings];
+  for (const [name, server] of Object.entries(imported.servers)) {
+    if (config.mcpServers[name]) {
+      warnings.push(`${name}: already in mcp.config.json, kept the existing definition`);
+      continue;
+    }
+    config.mcpServers[name] = server;
+    added.push(name);
+  }
+
+  for (const warning of warnings) {
+    console.warn(`⚠️  ${warning}`);
+  }
+
+  if (added.length === 0) {
+    console.log(`ℹ️  No servers imported from ${source}`);
+    return;
+  }
+
+  writeFileSync(configPath, `${JSON.stringify(config, null, 2)}\n`);
+  const format = imported.format === 'vscode' ? 'VS Code' : 'Claude Desktop';
+  console.log(`✅ Imported ${added.length} server(s) from ${format} config into mcp.config.json: ${added.join(', ')}`);
+  console.log('   Run `open-apps-sdk validate` to check the result.');
+}
+
+// The user config or MCP_CONFIG stand in for a project mcp.config.json
+function hasMCPConfig(): boolean {
+  return mcpConfigLayers().some(layer => existsSync(layer.path));
+}
+
+// loadMCPConfig reports what is wrong, with the path of each problem
+async function isMCPConfigValid(): Promise<boolean> {
+  try {
+    await loadMCPConfig();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 function showHelp() {
   console.log(`
 Open Apps SDK CLI
@@ -573,12 +710,18 @@ Commands:
   init     Initialize a new Open Apps SDK project
   start    Start the development server
   setup    Initialize project, start servers, and open UI
+  validate Check mcp.config.json for errors
+  config   Show the merged MCP config and which file set each field
+  import   Add servers from a Claude Desktop or VS Code MCP config
   help     Show this help message
 
 Examples:
   open-apps-sdk init
   open-apps-sdk start
   open-apps-sdk setup
+  open-apps-sdk validate
+  NODE_ENV=production open-apps-sdk config
+  open-apps-sdk import .vscode/mcp.json
 
 For more information, visit: https://github.com/maneeshsandra/open-apps-sdk
 `);
@@ -5,8 +5,8 @@ import "./index.css";
 
 import { useState, useEffect, useRef } from 'react';
 import logo from '../logo.png';
-import type { Message, ToolCallResult } from '../lib/types';
-import { ComponentProvider } from '../lib/component-context';
+import type { Message, MCPPrompt, ToolCallResult, ToolProgress, WSMessage, WSMessageType, ElicitationRequest, ElicitationResponse, ElicitationField, ToolApprovalRequest, MCPServerStatus } from '../lib/types';
+import { ComponentProvider, onServerMessage, sendServerMessage } from '../lib/component-context';
 import { useTheme } from '../lib/use-open-apps';
 import { renderComponent, hasComponent, getComponentForTool } from '../lib/component-registry';
 
@@ -19,6 +19,20 @@ interface ChatMessage extends Message {
   tool_name?: string;
 }
 
+// A server-initiated request waiting for the user's decision
+interface PendingClientRequest {
+  id: string;
+  type: WSMessageType;
+  payload: any;
+}
+
+// Server request types rendered as cards, and the message type used to answer each
+const CLIENT_REQUEST_RESPONSES: Partial<Record<WSMessageType, WSMessageType>> = {
+  sampling_request: 'sampling_response',
+  elicitation_request: 'elicitation_response',
+  tool_approval_request: 'tool_approval_response',
+};
+
 interface Conversation {
   id: string;
   title: string;
@@ -48,16 +62,59 @@ function App() {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [prompts, setPrompts] = useState<MCPPrompt[]>([]);
+  const [selectedPromptIndex, setSelectedPromptIndex] = useState(0);
+  const [activePrompt, setActivePrompt] = useState<MCPPrompt | null>(null);
+  const [promptArgs, setPromptArgs] = useState<Record<string, string>>({});
+  const [pendingRequests, setPendingRequests] = useState<PendingClientRequest[]>([]);
+  const [unauthorizedServers, setUnauthorizedServers] = useState<MCPServerStatus[]>([]);
+  const [configError, setConfigError] = useState<string | null>(null);
+  const [runningTool, setRunningTool] = useState<{ callId: string; toolName: string; progress?: ToolProgress } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const theme = useTheme();
 
   const isDark = theme === 'dark';
 
+  // Slash commands: "/" followed by a prompt name filters the available MCP prompts
+  const slashQuery = input.startsWith('/') && !/\s/.test(input) ? input.slice(1).toLowerCase() : null;
+  const matchingPrompts = slashQuery === null
+    ? []
+    : prompts.filter(prompt => prompt.name.toLowerCase().includes(slashQuery));
+
   useEffect(() => {
     loadConversations();
   }, []);
 
+  // Collect server requests that need a user decision
+  useEffect(() => {
+    return onServerMessage((message: WSMessage) => {
+      if (message.id && CLIENT_REQUEST_RESPONSES[message.type]) {
+        setPendingRequests(prev => [...prev, { id: message.id!, type: message.type, payload: message.payload }]);
+      } else if (message.type === 'init' && message.payload.servers) {
+        setUnauthorizedServers((message.payload.servers as MCPServerStatus[]).filter(status => status.authorizationUrl));
+      } else if (message.type === 'server_status') {
+        // Servers waiting for OAuth consent; the card goes away once the server is ready
+        const status = message.payload as MCPServerStatus;
+        setUnauthorizedServers(prev => [
+          ...prev.filter(server => server.name !== status.name),
+          ...(status.authorizationUrl ? [status] : []),
+        ]);
+      } else if (message.type === 'config_error') {
+        setConfigError(message.payload.error);
+      } else if (message.type === 'config_reloaded') {
+        setConfigError(null);
+      } else if (message.type === 'client_request_resolved') {
+        setPendingRequests(prev => prev.filter(request => request.id !== message.payload.id));
+      } else if (message.type === 'tool_progress' && !message.id) {
+        // Progress for tool calls made by the chat loop (component calls carry their own id)
+        setRunningTool(message.payload);
+      } else if (message.type === 'tool_result' && !message.id) {
+        setRunningTool(null);
+      }
+    });
+  }, []);
+
   // Load the most recent conversation after conversations are loaded
   useEffect(() => {
     if (conversations.length > 0 && !currentConversationId) {
@@ -82,6 +139,14 @@ function App() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Refresh prompts each time the slash menu opens
+  useEffect(() => {
+    if (slashQuery === '') {
+      loadPrompts();
+    }
+    setSelectedPromptIndex(0);
+  }, [slashQuery]);
+
   useEffect(() => {
     if (inputRef.current) {
       inputRef.current.style.height = 'auto';
@@ -99,6 +164,16 @@ function App() {
     }
   };
 
+  const loadPrompts = async () => {
+    try {
+      const response = await fetch('/api/prompts');
+      const data = await response.json();
+      setPrompts(data.prompts || []);
+    } catch (error) {
+      console.error('Failed to load prompts:', error);
+    }
+  };
+
   const loadConversation = async (id: string) => {
     try {
       const response = await fetch(`/api/conversations/${id}`);
@@ -144,14 +219,17 @@ function App() {
     const text = messageText || input.trim();
     if (!text || isLoading) return;
 
-    const userMessage: ChatMessage = {
-      id: `msg-${Date.now()}`,
-      role: 'user',
-      content: text,
+    await submitMessages([{ role: 'user', content: text }]);
+  };
+
+  const submitMessages = async (newMessages: Message[]) => {
+    const chatMessages: ChatMessage[] = newMessages.map((message, index) => ({
+      ...message,
+      id: `msg-${Date.now()}-${index}`,
       timestamp: new Date(),
-    };
+    }));
 
-    setMessages(prev => [...prev, userMessage]);
+    setMessages(prev => [...prev, ...chatMessages]);
     setInput('');
     setIsLoading(true);
 
@@ -160,7 +238,7 @@ function App() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          messages: [userMessage],
+          messages: chatMessages,
           conversationId: currentConversationId,
         }),
       });
@@ -191,9 +269,9 @@ function App() {
       };
 
       if (data.toolResults && data.toolResults.length > 0) {
-        const firstToolResult = data.toolResults[0];
-        const toolName = firstToolResult.toolName;
-        const resultMeta = firstToolResult.result?._meta as Record<string, unknown> | undefined;
+        const renderedResult = data.toolResults[data.renderedResultIndex ?? 0];
+        const toolName = renderedResult.toolName;
+        const resultMeta = renderedResult.result?._meta as Record<string, unknown> | undefined;
         const metaComponentName = typeof resultMeta?.componentId === 'string'
           ? (resultMeta.componentId as string)
           : typeof resultMeta?.component_id === 'string'
@@ -201,13 +279,13 @@ function App() {
           : undefined;
 
         const resolvedComponentName = metaComponentName
-          ?? getComponentForTool(toolName)
+          ?? getComponentForTool(toolName, renderedResult.originalToolName)
           ?? undefined;
 
         assistantMessage.component_name = resolvedComponentName;
-        assistantMessage.component_props = firstToolResult.result?.structuredContent ?? null;
+        assistantMessage.component_props = renderedResult.result?.structuredContent ?? null;
         assistantMessage.tool_name = toolName;
-        assistantMessage.tool_result = firstToolResult.result;
+        assistantMessage.tool_result = renderedResult.result;
       }
 
       setMessages(prev => [...prev, assistantMessage]);
@@ -221,10 +299,86 @@ function App() {
       }]);
     } finally {
       setIsLoading(false);
+      setRunningTool(null);
     }
   };
 
+  const cancelRunningTool = () => {
+    if (!runningTool) return;
+    sendServerMessage({ type: 'tool_cancel', payload: { callId: runningTool.callId } });
+  };
+
+  const runPrompt = async (prompt: MCPPrompt, args: Record<string, string>) => {
+    setActivePrompt(null);
+    setPromptArgs({});
+    setInput('');
+
+    try {
+      const response = await fetch(`/api/prompts/${encodeURIComponent(prompt.name)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ arguments: args }),
+      });
+      const data = await response.json();
+
+      if (data.error) {
+        console.error('Prompt error:', data.error);
+        setMessages(prev => [...prev, {
+          id: `msg-${Date.now()}-error`,
+          role: 'assistant',
+          content: `Error: ${data.error}`,
+          timestamp: new Date(),
+        }]);
+        return;
+      }
+
+      await submitMessages(data.prompt.messages);
+    } catch (error) {
+      console.error('Failed to run prompt:', error);
+    }
+  };
+
+  const selectPrompt = (prompt: MCPPrompt) => {
+    if (prompt.arguments && prompt.arguments.length > 0) {
+      setActivePrompt(prompt);
+      setPromptArgs({});
+      setInput('');
+      return;
+    }
+
+    runPrompt(prompt, {});
+  };
+
+  const respondToRequest = (request: PendingClientRequest, payload: unknown) => {
+    const responseType = CLIENT_REQUEST_RESPONSES[request.type];
+    if (!responseType) return;
+
+    sendServerMessage({ type: responseType, id: request.id, payload });
+    setPendingRequests(prev => prev.filter(pending => pending.id !== request.id));
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (matchingPrompts.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSelectedPromptIndex(prev => (prev + step + matchingPrompts.length) % matchingPrompts.length);
+        return;
+      }
+
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault();
+        const prompt = matchingPrompts[selectedPromptIndex] ?? matchingPrompts[0];
+        if (prompt) selectPrompt(prompt);
+        return;
+      }
+
+      if (e.key === 'Escape') {
+        setInput('');
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       sendMessage();
@@ -343,16 +497,122 @@ function App() {
                       <span></span>
                       <span></span>
                     </div>
+                    {runningTool && (
+                      <div className="tool-progress">
+                        <span className="tool-progress-label">
+                          Running {runningTool.toolName}
+                          {runningTool.progress?.message ? ` - ${runningTool.progress.message}` : ''}
+                        </span>
+                        {runningTool.progress?.total ? (
+                          <progress value={runningTool.progress.progress} max={runningTool.progress.total} />
+                        ) : null}
+                        <button className="btn-secondary" onClick={cancelRunningTool}>
+                          Cancel
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
             </>
           )}
           
+          {configError && (
+            <div className="request-card">
+              <div className="request-card-title">
+                <strong>mcp.config.json</strong> could not be applied, so the previous configuration is still in use
+              </div>
+              <div className="request-card-warning">{configError}</div>
+              <div className="request-card-actions">
+                <button className="btn-secondary" onClick={() => setConfigError(null)}>
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          )}
+
+          {unauthorizedServers.map(server => (
+            <div key={server.name} className="request-card">
+              <div className="request-card-title">
+                <strong>{server.name}</strong> needs your authorization before its tools can be used
+              </div>
+              <div className="request-card-actions">
+                <a className="btn-primary" href={server.authorizationUrl} target="_blank" rel="noopener noreferrer">
+                  Authorize
+                </a>
+              </div>
+            </div>
+          ))}
+
+          {pendingRequests.map(request => (
+            <ClientRequestCard
+              key={request.id}
+              request={request}
+              onRespond={(payload) => respondToRequest(request, payload)}
+            />
+          ))}
+
           <div ref={messagesEndRef} />
         </div>
 
         <div className="chat-input-container">
+          {activePrompt && (
+            <form
+              className="prompt-args-form"
+              onSubmit={(e) => {
+                e.preventDefault();
+                runPrompt(activePrompt, promptArgs);
+              }}
+            >
+              <div className="prompt-args-header">
+                <span className="prompt-args-title">/{activePrompt.name}</span>
+                {activePrompt.description && (
+                  <span className="prompt-args-description">{activePrompt.description}</span>
+                )}
+              </div>
+              {activePrompt.arguments?.map(arg => (
+                <label key={arg.name} className="prompt-arg">
+                  <span>{arg.name}{arg.required ? ' *' : ''}</span>
+                  <input
+                    type="text"
+                    value={promptArgs[arg.name] ?? ''}
+                    placeholder={arg.description}
+                    required={arg.required}
+                    onChange={(e) => setPromptArgs(prev => ({ ...prev, [arg.name]: e.target.value }))}
+                  />
+                </label>
+              ))}
+              <div className="prompt-args-actions">
+                <button type="button" className="btn-secondary" onClick={() => setActivePrompt(null)}>
+                  Cancel
+                </button>
+                <button type="submit" className="btn-primary" disabled={isLoading}>
+                  Insert prompt
+                </button>
+              </div>
+            </form>
+          )}
+          {matchingPrompts.length > 0 && (
+            <div className="slash-menu" role="listbox">
+              {matchingPrompts.map((prompt, idx) => (
+                <button
+                  key={prompt.name}
+                  role="option"
+                  aria-selected={idx === selectedPromptIndex}
+                  className={`slash-menu-item ${idx === selectedPromptIndex ? 'selected' : ''}`}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    selectPrompt(prompt);
+                  }}
+                >
+                  <span className="slash-menu-name">/{prompt.name}</span>
+                  {prompt.description && (
+                    <span className="slash-menu-description">{prompt.description}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
           <div className="chat-input-wrapper">
             <textarea
               ref={inputRef}
@@ -383,6 +643,200 @@ function App() {
   );
 }
 
+function ClientRequestCard({
+  request,
+  onRespond,
+}: {
+  request: PendingClientRequest;
+  onRespond: (payload: unknown) => void;
+}) {
+  switch (request.type) {
+    case 'sampling_request': {
+      const { serverName, systemPrompt, messages, maxTokens } = request.payload;
+      return (
+        <div className="request-card">
+          <div className="request-card-title">
+            <strong>{serverName}</strong> wants to use the assistant's model
+          </div>
+          <div className="request-card-body">
+            {systemPrompt && <div className="request-card-system">{systemPrompt}</div>}
+            {(messages as Message[]).map((message, idx) => (
+              <div key={idx} className="request-card-message">
+                <span className="request-card-role">{message.role}</span>
+                <span>{message.content}</span>
+              </div>
+            ))}
+            <div className="request-card-meta">Up to {maxTokens} tokens</div>
+          </div>
+          <div className="request-card-actions">
+            <button className="btn-secondary" onClick={() => onRespond({ approved: false })}>
+              Deny
+            </button>
+            <button className="btn-primary" onClick={() => onRespond({ approved: true })}>
+              Approve
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    case 'elicitation_request':
+      return <ElicitationForm request={request.payload} onRespond={onRespond} />;
+
+    case 'tool_approval_request': {
+      const { serverName, toolName, args, annotations } = request.payload as ToolApprovalRequest;
+      return (
+        <div className="request-card">
+          <div className="request-card-title">
+            Allow <strong>{annotations?.title || toolName}</strong> from <strong>{serverName}</strong>?
+          </div>
+          <div className="request-card-body">
+            {annotations?.destructiveHint && (
+              <div className="request-card-warning">This tool may modify or delete data.</div>
+            )}
+            <pre className="request-card-args">{JSON.stringify(args, null, 2)}</pre>
+          </div>
+          <div className="request-card-actions">
+            <button className="btn-secondary" onClick={() => onRespond({ approved: false })}>
+              Deny
+            </button>
+            <button className="btn-primary" onClick={() => onRespond({ approved: true })}>
+              Approve
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+}
+
+const ELICITATION_INPUT_TYPES: Record<string, string> = {
+  email: 'email',
+  uri: 'url',
+  date: 'date',
+  'date-time': 'datetime-local',
+};
+
+// "2025-06-01T09:30:00Z" -> "2025-06-01T11:30" in the browser's timezone, as datetime-local inputs expect
+function toDateTimeLocal(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return '';
+  }
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function ElicitationForm({
+  request,
+  onRespond,
+}: {
+  request: ElicitationRequest;
+  onRespond: (response: ElicitationResponse) => void;
+}) {
+  const properties = Object.entries(request.requestedSchema.properties || {});
+  const required = new Set(request.requestedSchema.required || []);
+  const [values, setValues] = useState<Record<string, string | boolean>>(() =>
+    Object.fromEntries(properties.map(([name, field]) => [
+      name,
+      field.type === 'boolean' ? Boolean(field.default)
+        : field.default === undefined ? ''
+        : field.format === 'date-time' ? toDateTimeLocal(String(field.default))
+        : String(field.default),
+    ]))
+  );
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const content: Record<string, string | number | boolean> = {};
+    for (const [name, field] of properties) {
+      const value = values[name];
+      if (field.type === 'boolean') {
+        content[name] = Boolean(value);
+      } else if (value !== '' && value !== undefined) {
+        content[name] = field.type === 'number' || field.type === 'integer' ? Number(value)
+          // datetime-local inputs have no seconds or timezone; the spec wants RFC 3339
+          : field.format === 'date-time' ? new Date(String(value)).toISOString()
+          : String(value);
+      }
+    }
+
+    onRespond({ action: 'accept', content });
+  };
+
+  const renderInput = (name: string, field: ElicitationField) => {
+    const setValue = (value: string | boolean) => setValues(prev => ({ ...prev, [name]: value }));
+
+    if (field.type === 'boolean') {
+      return (
+        <input
+          type="checkbox"
+          checked={Boolean(values[name])}
+          onChange={(e) => setValue(e.target.checked)}
+        />
+      );
+    }
+
+    if (field.enum) {
+      return (
+        <select value={String(values[name] ?? '')} required={required.has(name)} onChange={(e) => setValue(e.target.value)}>
+          <option value="" disabled>Select...</option>
+          {field.enum.map((option, idx) => (
+            <option key={option} value={option}>{field.enumNames?.[idx] ?? option}</option>
+          ))}
+        </select>
+      );
+    }
+
+    const isNumber = field.type === 'number' || field.type === 'integer';
+    return (
+      <input
+        type={isNumber ? 'number' : ELICITATION_INPUT_TYPES[field.format ?? ''] ?? 'text'}
+        value={String(values[name] ?? '')}
+        required={required.has(name)}
+        min={field.minimum}
+        max={field.maximum}
+        step={field.type === 'integer' ? 1 : undefined}
+        minLength={field.minLength}
+        maxLength={field.maxLength}
+        placeholder={field.description}
+        onChange={(e) => setValue(e.target.value)}
+      />
+    );
+  };
+
+  return (
+    <form className="request-card" onSubmit={submit}>
+      <div className="request-card-title">
+        <strong>{request.serverName}</strong> needs more information
+      </div>
+      <div className="request-card-body">
+        <div>{request.message}</div>
+        {properties.map(([name, field]) => (
+          <label key={name} className={`prompt-arg ${field.type === 'boolean' ? 'prompt-arg-inline' : ''}`}>
+            <span>{field.title ?? name}{required.has(name) ? ' *' : ''}</span>
+            {renderInput(name, field)}
+          </label>
+        ))}
+      </div>
+      <div className="request-card-actions">
+        <button type="button" className="btn-secondary" onClick={() => onRespond({ action: 'cancel' })}>
+          Cancel
+        </button>
+        <button type="button" className="btn-secondary" onClick={() => onRespond({ action: 'decline' })}>
+          Decline
+        </button>
+        <button type="submit" className="btn-primary">
+          Submit
+        </button>
+      </div>
+    </form>
+  );
+}
+
 function MessageBubble({ 
   message, 
   isDark, 
@@ -0,0 +1,198 @@
+/**
+ * Call Scheduler
+ * Queues tool calls to one server so they stay within its concurrency and rate
+ * limits. Waiting calls are started round-robin by tool, so a burst of calls to
+ * one tool can't hold up calls to the others.
+ */
+
+import type { MCPCallLimits, MCPCallQueueStatus } from './types';
+
+// Number of recent calls the average wait is taken over
+const WAIT_SAMPLE_SIZE = 100;
+
+interface Waiter {
+  enqueuedAt: number;
+  start: () => void;
+  reject: (error: unknown) => void;
+}
+
+export class CallScheduler {
+  private active = 0;
+  // Waiting calls by tool; Map order is the round-robin order
+  private queues = new Map<string, Waiter[]>();
+  // Start times of calls within the current rate limit interval
+  private recentStarts: number[] = [];
+  private recentWaits: number[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly limits: MCPCallLimits) {}
+
+  /**
+   * Run a call once the limits allow it
+   * Aborting the signal while the call is still queued rejects without running it
+   */
+  async run<T>(toolName: string, call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(toolName, signal);
+    try {
+      return await call();
+    } finally {
+      this.active--;
+      this.pump();
+    }
+  }
+
+  status(): MCPCallQueueStatus {
+    const now = Date.now();
+    let queued = 0;
+    let longestWait = 0;
+    for (const waiters of this.queues.values()) {
+      queued += waiters.length;
+      // Each tool's queue is in arrival order, so its head has waited longest
+      if (waiters[0]) {
+        longestWait = Math.max(longestWait, now - waiters[0].enqueuedAt);
+      }
+    }
+
+    const averageWait = this.recentWaits.length > 0
+      ? Math.round(this.recentWaits.reduce((sum, wait) => sum + wait, 0) / this.recentWaits.length)
+      : 0;
+
+    return { active: this.active, queued, longestWait, averageWait };
+  }
+
+  /**
+   * Reject every queued call; calls already running are left to finish
+   */
+  dispose(reason: Error): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const queues = [...this.queues.values()];
+    this.queues.clear();
+    for (const waiters of queues) {
+      for (const waiter of waiters) {
+        waiter.reject(reason);
+      }
+    }
+  }
+
+  private acquire(toolName: string, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+
+    if (this.queues.size === 0 && this.canStart()) {
+      this.started(0);
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.remove(toolName, waiter);
+        reject(signal!.reason);
+      };
+
+      const waiter: Waiter = {
+        enqueuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const waiters = this.queues.get(toolName);
+      if (waiters) {
+        waiters.push(waiter);
+      } else {
+        this.queues.set(toolName, [waiter]);
+      }
+      this.pump();
+    });
+  }
+
+  /**
+   * Start queued calls while the limits allow, taking one call per tool in turn
+   */
+  private pump(): void {
+    while (this.queues.size > 0 && this.canStart()) {
+      const [toolName, waiters] = this.queues.entries().next().value!;
+      const waiter = waiters.shift()!;
+
+      // Move the tool to the back of the round-robin order
+      this.queues.delete(toolName);
+      if (waiters.length > 0) {
+        this.queues.set(toolName, waiters);
+      }
+
+      this.started(Date.now() - waiter.enqueuedAt);
+      waiter.start();
+    }
+
+    this.scheduleRateLimitRetry();
+  }
+
+  private canStart(): boolean {
+    const { maxConcurrency, rateLimit } = this.limits;
+    if (maxConcurrency !== undefined && this.active >= maxConcurrency) {
+      return false;
+    }
+
+    if (rateLimit) {
+      const windowStart = Date.now() - rateLimit.interval;
+      this.recentStarts = this.recentStarts.filter(startedAt => startedAt > windowStart);
+      if (this.recentStarts.length >= rateLimit.requests) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private started(wait: number): void {
+    this.active++;
+    if (this.limits.rateLimit) {
+      this.recentStarts.push(Date.now());
+    }
+
+    this.recentWaits.push(wait);
+    if (this.recentWaits.length > WAIT_SAMPLE_SIZE) {
+      this.recentWaits.shift();
+    }
+  }
+
+  /**
+   * Calls held back only by the rate limit start when the oldest start leaves the interval
+   */
+  private scheduleRateLimitRetry(): void {
+    const { rateLimit, maxConcurrency } = this.limits;
+    const limitedByConcurrency = maxConcurrency !== undefined && this.active >= maxConcurrency;
+    if (!rateLimit || this.timer || this.queues.size === 0 || limitedByConcurrency) {
+      return;
+    }
+
+    const delay = Math.max(0, (this.recentStarts[0] ?? Date.now()) + rateLimit.interval - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, delay);
+  }
+
+  private remove(toolName: string, waiter: Waiter): void {
+    const waiters = this.queues.get(toolName);
+    if (!waiters) return;
+
+    const index = waiters.indexOf(waiter);
+    if (index !== -1) {
+      waiters.splice(index, 1);
+    }
+    if (waiters.length === 0) {
+      this.queues.delete(toolName);
+    }
+  }
+}
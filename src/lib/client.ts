@@ -3,17 +3,18 @@
  * Client-side React components and hooks
  */
 
-export { ComponentProvider, Context } from './component-context';
+export { ComponentProvider, Context, onServerMessage, sendServerMessage } from './component-context';
 export { registerComponents, registerComponent, getComponent, renderComponent, getRegisteredComponents, getComponentForTool, loadComponentConfig,hasComponent } from './component-registry';
 export { loadComponent, preloadComponents, clearComponentCache, DynamicComponent } from './component-loader';
 export { useOpenApps, useOpenAppsGlobal, useToolInput, useToolOutput, useComponentState, useTheme, useLocale, useDisplayMode, useReadonly, useCallTool, useRequestDisplayMode, useSendFollowup, useComponentContext } from './use-open-apps';
 export { default as App } from '../client/App';
-export type { ComponentContext, DisplayMode, Theme, ToolCallResult, MCPServerConfig, LLMConfig, Message, MCPTool, MCPResource, ChatCompletionRequest, ChatCompletionResponse, ChatCompletionChunk, ToolCall, WSMessage, Conversation } from './types';
+export type { ComponentContext, DisplayMode, Theme, ToolCallResult, MCPServerConfig, MCPServerStatus, MCPServerState, MCPReconnectPolicy, LLMConfig, Message, MCPTool, MCPToolAnnotations, MCPApprovalPolicy, MCPApprovalMode, MCPCachePolicy, MCPCallLimits, MCPCallQueueStatus, MCPLogLevel, MCPLogEntry, MCPLogQuery, MCPAuthConfig, MCPOAuthConfig, ToolApprovalRequest, ToolApprovalResponse, MCPResource, MCPPrompt, MCPPromptArgument, RenderedPrompt, SamplingRequest, SamplingResponse, ElicitationRequest, ElicitationResponse, ElicitationField, ToolProgress, ToolCallOptions, ChatCompletionRequest, ChatCompletionResponse, ChatCompletionChunk, ToolCall, ToolCallDelta, ToolCallProviderMetadata, WSMessage, Conversation } from './types';
 export type { ComponentRegistrationConfig } from './component-registry';
 export type { ComponentMetadata, ComponentLoaderConfig } from './component-loader';
 export type { OpenAppsGlobals } from './use-open-apps';
-export type { LLMAdapter, OpenAICompatibleAdapter, AnthropicAdapter } from './llm-adapter';
+export type { LLMAdapter, OpenAICompatibleAdapter, AnthropicAdapter, GeminiAdapter } from './llm-adapter';
 export { createLLMAdapter } from './llm-adapter';
 export { getMCPClient, MCPClient } from './mcp-client';
-export { loadMCPConfig, validateMCPConfig } from './mcp-config';
+export { loadMCPConfig, validateMCPConfig, explainMCPConfig, mcpConfigLayers } from './mcp-config';
+export type { MCPConfigLayer, MCPConfigField } from './mcp-config';
 export type { Conversation as DBConversation, StoredMessage, CreateMessageParams } from './database';
\ No newline at end of file
@@ -4,11 +4,37 @@
  */
 
 import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
-import type { ComponentContext, DisplayMode, Theme, ToolCallResult } from './types';
+import type { ComponentContext, DisplayMode, Theme, ToolCallOptions, ToolCallResult, WSMessage } from './types';
 
 // WebSocket connection for real-time communication
 let ws: WebSocket | null = null;
 
+// Listeners for server-initiated messages (approval requests and the like)
+const serverMessageListeners = new Set<(message: WSMessage) => void>();
+
+/**
+ * Subscribe to every message received over the shared WebSocket
+ * Returns an unsubscribe function
+ */
+export function onServerMessage(listener: (message: WSMessage) => void): () => void {
+  serverMessageListeners.add(listener);
+  return () => {
+    serverMessageListeners.delete(listener);
+  };
+}
+
+/**
+ * Send a message over the shared WebSocket, returning false if it is not connected
+ */
+export function sendServerMessage(message: WSMessage): boolean {
+  if (!ws || ws.readyState !== WebSocket.OPEN) {
+    return false;
+  }
+
+  ws.send(JSON.stringify(message));
+  return true;
+}
+
 interface ComponentProviderProps {
   children: ReactNode;
   wsUrl?: string;
@@ -62,6 +88,7 @@ export function ComponentProvider({
         try {
           const message = JSON.parse(event.data);
           handleWSMessage(message);
+          serverMessageListeners.forEach(listener => listener(message));
         } catch (error) {
           console.error('Failed to parse WebSocket message:', error);
         }
@@ -106,12 +133,31 @@ export function ComponentProvider({
         }
         break;
 
+      case 'server_status':
+      case 'tools_changed':
+      case 'resources_changed':
+      case 'prompts_changed':
+      case 'sampling_request':
+      case 'elicitation_request':
+      case 'tool_approval_request':
+      case 'client_request_resolved':
+      case 'tool_progress':
+      case 'config_reloaded':
+      case 'config_error':
+        // Server-level messages, handled by the chat UI rather than components
+        break;
+
       default:
         console.log('Unknown message type:', message.type);
     }
   }, []);
 
-  const callTool = useCallback(async (name: string, args: Record<string, unknown>, headers?: Record<string, string>): Promise<ToolCallResult> => {
+  const callTool = useCallback(async (
+    name: string,
+    args: Record<string, unknown>,
+    headers?: Record<string, string>,
+    options: Pick<ToolCallOptions, 'signal' | 'onProgress'> = {}
+  ): Promise<ToolCallResult> => {
     return new Promise((resolve, reject) => {
       // For static components (skipWebSocket=true), we can't make tool calls
       if (skipWebSocket) {
@@ -125,43 +171,71 @@ export function ComponentProvider({
         return;
       }
 
-      const messageId = `tool-${Date.now()}`;
-      
-      // Include headers in the arguments if provided
-      const callArgs = headers ? { ...args, __headers__: headers } : args;
-      
-      // Listen for response
+      if (options.signal?.aborted) {
+        reject(new DOMException('Tool call cancelled', 'AbortError'));
+        return;
+      }
+
+      const socket = ws;
+      const messageId = `tool-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+      const cleanup = () => {
+        socket.removeEventListener('message', handler);
+        socket.removeEventListener('close', handleClose);
+        options.signal?.removeEventListener('abort', handleAbort);
+      };
+
+      // Listen for progress and the final response
       const handler = (event: MessageEvent) => {
         try {
           const message = JSON.parse(event.data);
-          if (message.id === messageId) {
-            ws?.removeEventListener('message', handler);
-            
-            if (message.type === 'tool_result') {
-              resolve(message.payload.result);
-            } else if (message.type === 'error') {
-              reject(new Error(message.payload.error));
+          if (message.id !== messageId) return;
+
+          if (message.type === 'tool_progress') {
+            if (message.payload.progress) {
+              options.onProgress?.(message.payload.progress);
             }
+            return;
+          }
+
+          cleanup();
+          if (message.type === 'tool_result') {
+            resolve(message.payload.result);
+          } else if (message.type === 'error') {
+            reject(new Error(message.payload.error));
           }
         } catch (error) {
           console.error('Failed to parse tool result:', error);
         }
       };
 
-      ws.addEventListener('message', handler);
+      const handleClose = () => {
+        cleanup();
+        reject(new Error('WebSocket disconnected during tool call'));
+      };
 
-      // Send tool call request
-      ws.send(JSON.stringify({
+      // Cancel on the server too, so it stops working on the call
+      const handleAbort = () => {
+        cleanup();
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify({
+            type: 'tool_cancel',
+            payload: { callId: messageId },
+          }));
+        }
+        reject(new DOMException('Tool call cancelled', 'AbortError'));
+      };
+
+      socket.addEventListener('message', handler);
+      socket.addEventListener('close', handleClose);
+      options.signal?.addEventListener('abort', handleAbort);
+
+      // Send tool call request; timeouts are enforced by the server per mcp.config.json
+      socket.send(JSON.stringify({
         type: 'tool_call',
         id: messageId,
-        payload: { name, args: callArgs },
+        payload: { name, args, headers },
       }));
-
-      // Timeout after 30 seconds
-      setTimeout(() => {
-        ws?.removeEventListener('message', handler);
-        reject(new Error('Tool call timeout'));
-      }, 30000);
     });
   }, [skipWebSocket]);
 
@@ -5,6 +5,7 @@
  */
 
 import React from 'react';
+import { TOOL_NAME_SEPARATOR } from './types';
 
 // Component Registry Type
 type ComponentMap = {
@@ -114,9 +115,26 @@ export function getRegisteredComponents(): string[] {
 /**
  * Get component name for a given tool
  * Tool-to-component mappings are registered via registerComponents()
+ * Exposed names that differ from the server's tool name fall back to it: pass the
+ * original name for aliased tools, and server-prefixed names (e.g. weather__get_forecast)
+ * fall back to the unprefixed tool name
  */
-export function getComponentForTool(toolName: string): string | null {
-  return TOOL_TO_COMPONENT_MAP[toolName] || null;
+export function getComponentForTool(toolName: string, originalToolName?: string): string | null {
+  const direct = TOOL_TO_COMPONENT_MAP[toolName];
+  if (direct) {
+    return direct;
+  }
+
+  if (originalToolName && TOOL_TO_COMPONENT_MAP[originalToolName]) {
+    return TOOL_TO_COMPONENT_MAP[originalToolName];
+  }
+
+  const separatorIndex = toolName.indexOf(TOOL_NAME_SEPARATOR);
+  if (separatorIndex > 0) {
+    return TOOL_TO_COMPONENT_MAP[toolName.slice(separatorIndex + TOOL_NAME_SEPARATOR.length)] || null;
+  }
+
+  return null;
 }
 
 /**
@@ -0,0 +1,164 @@
+/**
+ * Config Environment
+ * `${VAR}` interpolation for mcp.config.json, .env file loading, and redaction
+ * of the secrets interpolation resolved
+ */
+
+import { existsSync, readFileSync } from 'fs';
+
+// ${VAR} or ${VAR:-default}; $${VAR} is an escaped, literal ${VAR}
+const REFERENCE_PATTERN = /\$?\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+const REDACTED = '[redacted]';
+
+// Shorter values would redact unrelated text such as "1" or "true"
+const MIN_SECRET_LENGTH = 4;
+
+// Variables whose values are secret wherever they are used
+const SECRET_NAME_PATTERN = /KEY|TOKEN|SECRET|PASSWORD/i;
+
+// Fields whose values are secret whatever variable they come from: entries of
+// headers and env maps, and credential fields
+const SECRET_MAPS = ['headers', 'env'];
+const SECRET_FIELDS = ['bearerToken', 'clientSecret'];
+
+// Values resolved from environment variables; see redactSecrets
+const secrets = new Set<string>();
+
+/**
+ * Parse a .env file: KEY=value lines, optionally prefixed with `export`,
+ * with # comments and single- or double-quoted values
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+    if (!match) continue;
+
+    const [, key, rawValue] = match;
+    const quoted = rawValue!.match(/^(['"])(.*)\1$/);
+    if (quoted) {
+      env[key!] = quoted[1] === '"' ? quoted[2]!.replace(/\\n/g, '\n') : quoted[2]!;
+    } else {
+      env[key!] = rawValue!.replace(/\s+#.*$/, '');
+    }
+  }
+
+  return env;
+}
+
+/**
+ * Read a .env file, or nothing if it doesn't exist
+ */
+export function loadEnvFile(path: string): Record<string, string> {
+  return existsSync(path) ? parseEnvFile(readFileSync(path, 'utf8')) : {};
+}
+
+/**
+ * Replace variable references in every string of a value, recursively
+ * References to unset variables without a default are collected in `missing`,
+ * as "VAR (at path)", and left in place
+ */
+export function interpolateEnv<T>(
+  value: T,
+  env: Record<string, string | undefined>,
+  missing: string[],
+  path = ''
+): T {
+  if (typeof value === 'string') {
+    return interpolateString(value, env, missing, path) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnv(item, env, missing, `${path}[${index}]`)) as T;
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, env, missing, path ? `${path}.${key}` : key)])
+    ) as T;
+  }
+
+  return value;
+}
+
+function interpolateString(
+  value: string,
+  env: Record<string, string | undefined>,
+  missing: string[],
+  path: string
+): string {
+  return value.replace(REFERENCE_PATTERN, (reference, name: string, fallback: string | undefined) => {
+    if (reference.startsWith('$$')) {
+      return reference.slice(1);
+    }
+
+    // As in the shell, :- also applies to variables that are set but empty
+    const resolved = env[name];
+    if (resolved !== undefined && resolved !== '') {
+      if (SECRET_NAME_PATTERN.test(name) || isSecretField(path)) {
+        registerSecret(resolved);
+      }
+      return resolved;
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    if (resolved === undefined) {
+      missing.push(`${name} (at ${path})`);
+      return reference;
+    }
+    return resolved;
+  });
+}
+
+// "mcpServers.weather.env.UNITS" -> true, "mcpServers.weather.args[0]" -> false
+function isSecretField(path: string): boolean {
+  const keys = path.replace(/\[\d+\]/g, '').split('.');
+  return SECRET_FIELDS.includes(keys[keys.length - 1]!) || SECRET_MAPS.includes(keys[keys.length - 2]!);
+}
+
+/**
+ * Treat a value as secret, so redactSecrets hides it
+ */
+export function registerSecret(value: string): void {
+  if (value.length >= MIN_SECRET_LENGTH) {
+    secrets.add(value);
+  }
+}
+
+/**
+ * Hide every resolved secret in text that is about to be logged or shown in the UI
+ */
+export function redactSecrets(text: string): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  return redacted;
+}
+
+/**
+ * A copy of a config with resolved secrets hidden in every string
+ */
+export function redactConfig<T>(config: T): T {
+  if (typeof config === 'string') {
+    return redactSecrets(config) as T;
+  }
+
+  if (Array.isArray(config)) {
+    return config.map(redactConfig) as T;
+  }
+
+  if (typeof config === 'object' && config !== null) {
+    return Object.fromEntries(
+      Object.entries(config).map(([key, value]) => [key, redactConfig(value)])
+    ) as T;
+  }
+
+  return config;
+}
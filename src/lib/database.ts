@@ -81,6 +81,28 @@ function initializeSchemaForDb(database: Database) {
     )
   `);
 
+  // OAuth state for remote MCP servers, one row per configured server
+  database.run(`
+    CREATE TABLE IF NOT EXISTS mcp_oauth_sessions (
+      server_name TEXT PRIMARY KEY,
+      client_information TEXT,
+      tokens TEXT,
+      code_verifier TEXT,
+      state TEXT,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  // Tool lists of lazy MCP servers, so they can be offered before the server starts
+  database.run(`
+    CREATE TABLE IF NOT EXISTS mcp_tool_lists (
+      server_name TEXT PRIMARY KEY,
+      fingerprint TEXT NOT NULL,
+      tools TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
   // Create indexes for better query performance
   database.run(`CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id)`);
   database.run(`CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp)`);
@@ -240,6 +262,95 @@ export function deleteMessage(id: string): boolean {
   return result.changes > 0;
 }
 
+// ============= MCP OAUTH SESSIONS =============
+
+export interface StoredOAuthSession {
+  server_name: string;
+  client_information: string | null; // JSON string
+  tokens: string | null; // JSON string
+  code_verifier: string | null;
+  state: string | null;
+  updated_at: number;
+}
+
+export type OAuthSessionFields = Partial<Pick<StoredOAuthSession, 'client_information' | 'tokens' | 'code_verifier' | 'state'>>;
+
+export function getOAuthSession(serverName: string): StoredOAuthSession | null {
+  const db = getDatabase();
+  return db.query(`SELECT * FROM mcp_oauth_sessions WHERE server_name = ?`).get(serverName) as StoredOAuthSession | null;
+}
+
+export function getOAuthSessionByState(state: string): StoredOAuthSession | null {
+  const db = getDatabase();
+  return db.query(`SELECT * FROM mcp_oauth_sessions WHERE state = ?`).get(state) as StoredOAuthSession | null;
+}
+
+/**
+ * Create or update a server's OAuth session; fields left out keep their stored value
+ */
+export function saveOAuthSession(serverName: string, fields: OAuthSessionFields): void {
+  const db = getDatabase();
+  const current = getOAuthSession(serverName);
+  const next = {
+    client_information: current?.client_information ?? null,
+    tokens: current?.tokens ?? null,
+    code_verifier: current?.code_verifier ?? null,
+    state: current?.state ?? null,
+    ...fields,
+  };
+
+  db.run(
+    `INSERT INTO mcp_oauth_sessions (server_name, client_information, tokens, code_verifier, state, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(server_name) DO UPDATE SET
+       client_information = excluded.client_information,
+       tokens = excluded.tokens,
+       code_verifier = excluded.code_verifier,
+       state = excluded.state,
+       updated_at = excluded.updated_at`,
+    [serverName, next.client_information, next.tokens, next.code_verifier, next.state, Date.now()]
+  );
+}
+
+export function deleteOAuthSession(serverName: string): boolean {
+  const db = getDatabase();
+  const result = db.run(`DELETE FROM mcp_oauth_sessions WHERE server_name = ?`, [serverName]);
+  return result.changes > 0;
+}
+
+// ============= MCP TOOL LISTS =============
+
+export interface StoredToolList {
+  server_name: string;
+  fingerprint: string; // Hash of the settings that launch the server; a different hash means a stale list
+  tools: string; // JSON string
+  updated_at: number;
+}
+
+export function getStoredToolList(serverName: string): StoredToolList | null {
+  const db = getDatabase();
+  return db.query(`SELECT * FROM mcp_tool_lists WHERE server_name = ?`).get(serverName) as StoredToolList | null;
+}
+
+export function saveToolList(serverName: string, fingerprint: string, tools: unknown[]): void {
+  const db = getDatabase();
+  db.run(
+    `INSERT INTO mcp_tool_lists (server_name, fingerprint, tools, updated_at)
+     VALUES (?, ?, ?, ?)
+     ON CONFLICT(server_name) DO UPDATE SET
+       fingerprint = excluded.fingerprint,
+       tools = excluded.tools,
+       updated_at = excluded.updated_at`,
+    [serverName, fingerprint, JSON.stringify(tools), Date.now()]
+  );
+}
+
+export function deleteToolList(serverName: string): boolean {
+  const db = getDatabase();
+  const result = db.run(`DELETE FROM mcp_tool_lists WHERE server_name = ?`, [serverName]);
+  return result.changes > 0;
+}
+
 // ============= HELPER FUNCTIONS =============
 
 /**
@@ -8,6 +8,8 @@ import type {
   ChatCompletionResponse,
   ChatCompletionChunk,
   MCPTool,
+  Message,
+  ToolCall,
 } from './types';
 
 export interface LLMAdapter {
@@ -35,7 +37,12 @@ export class OpenAICompatibleAdapter implements LLMAdapter {
         sanitized.name = message.name;
       }
       if (message.tool_calls && Array.isArray(message.tool_calls)) {
-        sanitized.tool_calls = message.tool_calls;
+        // provider_metadata belongs to other providers
+        sanitized.tool_calls = message.tool_calls.map((toolCall: ToolCall) => ({
+          id: toolCall.id,
+          type: toolCall.type,
+          function: toolCall.function,
+        }));
       }
       if (message.tool_call_id && typeof message.tool_call_id === 'string') {
         sanitized.tool_call_id = message.tool_call_id;
@@ -116,37 +123,7 @@ export class OpenAICompatibleAdapter implements LLMAdapter {
       throw new Error(`LLM API error (${response.status}): ${error}`);
     }
 
-    if (!response.body) {
-      throw new Error('Response body is null');
-    }
-
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    while (true) {
-      const { done, value } = await reader.read();
-      
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed || trimmed === 'data: [DONE]') continue;
-        
-        if (trimmed.startsWith('data: ')) {
-          try {
-            const json = JSON.parse(trimmed.slice(6));
-            yield json;
-          } catch (e) {
-            console.error('Failed to parse SSE data:', trimmed);
-          }
-        }
-      }
-    }
+    yield* readServerSentEvents(response);
   }
 
   private convertToolsToOpenAIFormat(tools: MCPTool[]) {
@@ -168,27 +145,107 @@ export class AnthropicAdapter implements LLMAdapter {
   constructor(private config: LLMConfig) {}
 
   async chat(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
-    const url = `${this.config.baseUrl}/v1/messages`;
+    const response = await this.sendRequest(this.buildRequestBody(request));
+    const result = await response.json();
     
+    // Convert Anthropic format back to OpenAI format
+    return this.convertAnthropicResponse(result);
+  }
+
+  /**
+   * Stream a response as OpenAI-style chunks: text and tool call arguments arrive as
+   * deltas, tool calls are numbered by `index`, and the last chunk carries the finish
+   * reason and usage
+   */
+  async *stream(request: ChatCompletionRequest): AsyncIterableIterator<ChatCompletionChunk> {
+    const response = await this.sendRequest({ ...this.buildRequestBody(request), stream: true });
+
+    let id = '';
+    let inputTokens = 0;
+    // Content block index -> tool call index, counting tool calls only
+    const toolCallIndexes = new Map<number, number>();
+
+    const chunk = (delta: ChatCompletionChunk['choices'][number]['delta'], finishReason: string | null = null): ChatCompletionChunk => ({
+      id,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+
+    for await (const event of readServerSentEvents(response)) {
+      switch (event.type) {
+        case 'message_start':
+          id = event.message.id;
+          inputTokens = event.message.usage?.input_tokens ?? 0;
+          yield chunk({ role: 'assistant', content: '' });
+          break;
+
+        case 'content_block_start':
+          if (event.content_block.type === 'tool_use') {
+            const index = toolCallIndexes.size;
+            toolCallIndexes.set(event.index, index);
+            yield chunk({
+              tool_calls: [{
+                index,
+                id: event.content_block.id,
+                type: 'function',
+                function: { name: event.content_block.name, arguments: '' },
+              }],
+            });
+          }
+          break;
+
+        case 'content_block_delta':
+          if (event.delta.type === 'text_delta') {
+            yield chunk({ content: event.delta.text });
+          } else if (event.delta.type === 'input_json_delta') {
+            yield chunk({
+              tool_calls: [{
+                index: toolCallIndexes.get(event.index)!,
+                function: { arguments: event.delta.partial_json },
+              }],
+            });
+          }
+          break;
+
+        case 'message_delta': {
+          // Output tokens are cumulative
+          const promptTokens = event.usage?.input_tokens ?? inputTokens;
+          const completionTokens = event.usage?.output_tokens ?? 0;
+          yield {
+            ...chunk({}, convertStopReason(event.delta.stop_reason)),
+            usage: {
+              prompt_tokens: promptTokens,
+              completion_tokens: completionTokens,
+              total_tokens: promptTokens + completionTokens,
+            },
+          };
+          break;
+        }
+
+        case 'error':
+          throw new Error(`Anthropic API error: ${event.error?.type} ${event.error?.message}`);
+      }
+    }
+  }
+
+  private buildRequestBody(request: ChatCompletionRequest) {
     // Convert OpenAI format to Anthropic format
     const systemMessages = request.messages.filter(m => m.role === 'system');
     const otherMessages = request.messages.filter(m => m.role !== 'system');
     
-    const body = {
+    return {
       model: this.config.model,
       max_tokens: request.max_tokens ?? this.config.maxTokens ?? 4096,
       temperature: request.temperature ?? this.config.temperature ?? 0.7,
       system: systemMessages.map(m => m.content).join('\n'),
-      messages: otherMessages.map(m => ({
-        role: m.role === 'assistant' ? 'assistant' : 'user',
-        content: m.content,
-      })),
+      messages: this.convertMessagesToAnthropicFormat(otherMessages),
       ...(request.tools && request.tools.length > 0 && {
         tools: this.convertToolsToAnthropicFormat(request.tools),
       }),
     };
+  }
 
-    const response = await fetch(url, {
+  private async sendRequest(body: object): Promise<Response> {
+    const response = await fetch(`${this.config.baseUrl}/v1/messages`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -203,15 +260,7 @@ export class AnthropicAdapter implements LLMAdapter {
       throw new Error(`Anthropic API error: ${response.status} ${error}`);
     }
 
-    const result = await response.json();
-    
-    // Convert Anthropic format back to OpenAI format
-    return this.convertAnthropicResponse(result);
-  }
-
-  async *stream(request: ChatCompletionRequest): AsyncIterableIterator<ChatCompletionChunk> {
-    // Similar implementation with streaming
-    throw new Error('Anthropic streaming not yet implemented');
+    return response;
   }
 
   private convertToolsToAnthropicFormat(tools: MCPTool[]) {
@@ -222,16 +271,79 @@ export class AnthropicAdapter implements LLMAdapter {
     }));
   }
 
+  /**
+   * Assistant tool calls become tool_use blocks, and tool messages become tool_result
+   * blocks in a user turn; results of consecutive tool calls share one turn, as Anthropic requires
+   */
+  private convertMessagesToAnthropicFormat(messages: Message[]) {
+    const converted: Array<{ role: 'user' | 'assistant'; content: string | any[] }> = [];
+
+    for (const message of messages) {
+      if (message.role === 'tool') {
+        const toolResult = {
+          type: 'tool_result',
+          tool_use_id: message.tool_call_id,
+          content: message.content,
+          ...(message.is_error && { is_error: true }),
+        };
+
+        const previous = converted[converted.length - 1];
+        if (previous?.role === 'user' && Array.isArray(previous.content)) {
+          previous.content.push(toolResult);
+        } else {
+          converted.push({ role: 'user', content: [toolResult] });
+        }
+      } else if (message.role === 'assistant' && message.tool_calls?.length) {
+        converted.push({
+          role: 'assistant',
+          content: [
+            ...(message.content ? [{ type: 'text', text: message.content }] : []),
+            ...message.tool_calls.map(toolCall => ({
+              type: 'tool_use',
+              id: toolCall.id,
+              name: toolCall.function.name,
+              input: parseToolCallArguments(toolCall.function.arguments),
+            })),
+          ],
+        });
+      } else {
+        converted.push({
+          role: message.role === 'assistant' ? 'assistant' : 'user',
+          content: message.content,
+        });
+      }
+    }
+
+    return converted;
+  }
+
   private convertAnthropicResponse(anthropicResponse: any): ChatCompletionResponse {
+    const blocks: any[] = anthropicResponse.content ?? [];
+    const toolCalls: ToolCall[] = blocks
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({
+        id: block.id,
+        type: 'function',
+        function: {
+          name: block.name,
+          arguments: JSON.stringify(block.input ?? {}),
+        },
+      }));
+
     return {
       id: anthropicResponse.id,
       choices: [{
         index: 0,
         message: {
           role: 'assistant',
-          content: anthropicResponse.content[0]?.text || '',
+          // Text can arrive in several blocks, e.g. around tool calls or split by citations
+          content: blocks
+            .filter(block => block.type === 'text')
+            .map(block => block.text)
+            .join(''),
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
         },
-        finish_reason: anthropicResponse.stop_reason === 'end_turn' ? 'stop' : 'tool_calls',
+        finish_reason: convertStopReason(anthropicResponse.stop_reason),
       }],
       usage: {
         prompt_tokens: anthropicResponse.usage?.input_tokens || 0,
@@ -242,6 +354,442 @@ export class AnthropicAdapter implements LLMAdapter {
   }
 }
 
+/**
+ * Parse the arguments of a tool call from the conversation history
+ * Models sometimes produce malformed arguments; those are replayed as empty rather than failing the request
+ */
+function parseToolCallArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const args = JSON.parse(raw);
+    return typeof args === 'object' && args !== null && !Array.isArray(args) ? args : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Map an Anthropic stop_reason to the OpenAI finish_reason
+ */
+function convertStopReason(stopReason: string | null | undefined): 'stop' | 'tool_calls' | 'length' {
+  switch (stopReason) {
+    case 'tool_use':
+      return 'tool_calls';
+    case 'max_tokens':
+      return 'length';
+    default:
+      return 'stop';
+  }
+}
+
+// Gemini API base URL, used when LLM_BASE_URL isn't set
+export const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+/**
+ * Google Gemini adapter
+ */
+export class GeminiAdapter implements LLMAdapter {
+  constructor(private config: LLMConfig) {}
+
+  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    const response = await this.sendRequest('generateContent', this.buildRequestBody(request));
+    const result = await response.json();
+
+    return this.convertGeminiResponse(result);
+  }
+
+  /**
+   * Stream a response as OpenAI-style chunks. Gemini sends each function call whole,
+   * so every tool call arrives in a single delta; the last chunk carries the finish
+   * reason and usage
+   */
+  async *stream(request: ChatCompletionRequest): AsyncIterableIterator<ChatCompletionChunk> {
+    const response = await this.sendRequest('streamGenerateContent?alt=sse', this.buildRequestBody(request));
+
+    let id: string | undefined;
+    let toolCallCount = 0;
+    let finishReason: string | undefined;
+    let usageMetadata: any;
+
+    const chunk = (delta: ChatCompletionChunk['choices'][number]['delta'], finishReason: string | null = null): ChatCompletionChunk => ({
+      id: id ?? '',
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+
+    for await (const event of readServerSentEvents(response)) {
+      if (event.error) {
+        throw new Error(`Gemini API error: ${event.error.code} ${event.error.message}`);
+      }
+
+      if (id === undefined) {
+        id = event.responseId ?? '';
+        yield chunk({ role: 'assistant', content: '' });
+      }
+
+      const candidate = this.firstCandidate(event);
+      for (const part of candidate.content?.parts ?? []) {
+        if (part.functionCall) {
+          yield chunk({
+            tool_calls: [{ index: toolCallCount++, ...this.convertFunctionCall(part) }],
+          });
+        } else if (part.text && !part.thought) {
+          yield chunk({ content: part.text });
+        }
+      }
+
+      finishReason = candidate.finishReason ?? finishReason;
+      usageMetadata = event.usageMetadata ?? usageMetadata;
+    }
+
+    yield {
+      ...chunk({}, toolCallCount > 0 ? 'tool_calls' : convertFinishReason(finishReason)),
+      usage: convertUsageMetadata(usageMetadata),
+    };
+  }
+
+  private buildRequestBody(request: ChatCompletionRequest) {
+    const systemMessages = request.messages.filter(m => m.role === 'system');
+    const otherMessages = request.messages.filter(m => m.role !== 'system');
+
+    return {
+      contents: this.convertMessagesToGeminiFormat(otherMessages),
+      ...(systemMessages.length > 0 && {
+        systemInstruction: { parts: [{ text: systemMessages.map(m => m.content).join('\n') }] },
+      }),
+      ...(request.tools && request.tools.length > 0 && {
+        tools: [{ functionDeclarations: this.convertToolsToGeminiFormat(request.tools) }],
+      }),
+      generationConfig: {
+        temperature: request.temperature ?? this.config.temperature ?? 0.7,
+        maxOutputTokens: request.max_tokens ?? this.config.maxTokens,
+      },
+    };
+  }
+
+  private async sendRequest(method: string, body: object): Promise<Response> {
+    const response = await fetch(`${this.config.baseUrl}/models/${this.config.model}:${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.config.apiKey || '',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Gemini API error: ${response.status} ${error}`);
+    }
+
+    return response;
+  }
+
+  private convertToolsToGeminiFormat(tools: MCPTool[]) {
+    return tools.map(tool => {
+      const parameters = convertSchemaToGemini(tool.inputSchema, tool.inputSchema);
+      return {
+        name: tool.name,
+        description: tool.description || '',
+        // Gemini rejects an OBJECT without properties, so tools without arguments leave it out
+        ...(parameters?.properties && { parameters }),
+      };
+    });
+  }
+
+  /**
+   * Assistant tool calls become functionCall parts, and tool messages become functionResponse
+   * parts in a user turn. Gemini matches responses to calls by function name, which tool
+   * messages don't carry, so it's looked up from the call they answer, along with the id
+   * Gemini gave the call
+   */
+  private convertMessagesToGeminiFormat(messages: Message[]) {
+    const converted: Array<{ role: 'user' | 'model'; parts: any[] }> = [];
+    const toolCalls = new Map<string, ToolCall>();
+
+    for (const message of messages) {
+      if (message.role === 'tool') {
+        const toolCall = toolCalls.get(message.tool_call_id ?? '');
+        const id = toolCall?.provider_metadata?.gemini?.id;
+        const functionResponse = {
+          functionResponse: {
+            ...(id && { id }),
+            name: toolCall?.function.name ?? message.name ?? '',
+            response: this.convertToolResult(message.content),
+          },
+        };
+
+        const previous = converted[converted.length - 1];
+        if (previous?.role === 'user' && previous.parts.every(part => part.functionResponse)) {
+          previous.parts.push(functionResponse);
+        } else {
+          converted.push({ role: 'user', parts: [functionResponse] });
+        }
+      } else if (message.role === 'assistant') {
+        for (const toolCall of message.tool_calls ?? []) {
+          toolCalls.set(toolCall.id, toolCall);
+        }
+
+        converted.push({
+          role: 'model',
+          parts: [
+            ...(message.content || !message.tool_calls?.length ? [{ text: message.content }] : []),
+            ...(message.tool_calls ?? []).map(toolCall => {
+              const { id, thoughtSignature } = toolCall.provider_metadata?.gemini ?? {};
+              return {
+                functionCall: {
+                  ...(id && { id }),
+                  name: toolCall.function.name,
+                  args: parseToolCallArguments(toolCall.function.arguments),
+                },
+                ...(thoughtSignature && { thoughtSignature }),
+              };
+            }),
+          ],
+        });
+      } else {
+        converted.push({ role: 'user', parts: [{ text: message.content }] });
+      }
+    }
+
+    return converted;
+  }
+
+  /**
+   * functionResponse.response must be an object: JSON objects are sent as they are,
+   * anything else under "output"
+   */
+  private convertToolResult(content: string): Record<string, unknown> {
+    try {
+      const result = JSON.parse(content);
+      if (typeof result === 'object' && result !== null && !Array.isArray(result)) {
+        return result;
+      }
+      return { output: result };
+    } catch {
+      return { output: content };
+    }
+  }
+
+  /**
+   * Convert a functionCall part; its id and thought signature are kept in provider_metadata,
+   * as thinking models need them back when the call is replayed
+   */
+  private convertFunctionCall(part: any): ToolCall {
+    const { id, name, args } = part.functionCall;
+    const metadata = {
+      ...(id && { id }),
+      ...(part.thoughtSignature && { thoughtSignature: part.thoughtSignature }),
+    };
+
+    return {
+      // Gemini only sometimes numbers its calls
+      id: id ?? `call-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type: 'function',
+      function: {
+        name,
+        arguments: JSON.stringify(args ?? {}),
+      },
+      ...(Object.keys(metadata).length > 0 && { provider_metadata: { gemini: metadata } }),
+    };
+  }
+
+  private firstCandidate(geminiResponse: any): any {
+    const candidate = geminiResponse.candidates?.[0];
+    if (!candidate && geminiResponse.promptFeedback?.blockReason) {
+      throw new Error(`Gemini API error: prompt blocked (${geminiResponse.promptFeedback.blockReason})`);
+    }
+    return candidate ?? {};
+  }
+
+  private convertGeminiResponse(geminiResponse: any): ChatCompletionResponse {
+    const candidate = this.firstCandidate(geminiResponse);
+    const parts: any[] = candidate.content?.parts ?? [];
+    const toolCalls = parts
+      .filter(part => part.functionCall)
+      .map(part => this.convertFunctionCall(part));
+
+    return {
+      id: geminiResponse.responseId ?? '',
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          // Thinking models return their thought summaries as text parts too
+          content: parts
+            .filter(part => typeof part.text === 'string' && !part.thought)
+            .map(part => part.text)
+            .join(''),
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        },
+        // Gemini reports STOP for function calls
+        finish_reason: toolCalls.length > 0 ? 'tool_calls' : convertFinishReason(candidate.finishReason),
+      }],
+      usage: convertUsageMetadata(geminiResponse.usageMetadata),
+    };
+  }
+}
+
+/**
+ * Map a Gemini finishReason to the OpenAI finish_reason
+ */
+function convertFinishReason(finishReason: string | undefined): 'stop' | 'length' {
+  return finishReason === 'MAX_TOKENS' ? 'length' : 'stop';
+}
+
+function convertUsageMetadata(usageMetadata: any): ChatCompletionResponse['usage'] {
+  const promptTokens = usageMetadata?.promptTokenCount || 0;
+  // Thinking tokens are billed as output
+  const completionTokens = (usageMetadata?.candidatesTokenCount || 0) + (usageMetadata?.thoughtsTokenCount || 0);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: usageMetadata?.totalTokenCount || promptTokens + completionTokens,
+  };
+}
+
+// JSON Schema keywords Gemini's Schema type understands; the rest are dropped
+const GEMINI_SCHEMA_KEYWORDS = [
+  'title', 'description', 'default', 'example', 'minimum', 'maximum',
+  'minItems', 'maxItems', 'minLength', 'maxLength', 'minProperties', 'maxProperties', 'pattern',
+];
+const GEMINI_STRING_FORMATS = ['enum', 'date-time'];
+const GEMINI_NUMBER_FORMATS = ['float', 'double', 'int32', 'int64'];
+
+/**
+ * Convert an MCP tool's JSON Schema into a Gemini Schema: local $refs are inlined,
+ * a "null" type becomes nullable, oneOf becomes anyOf, a string const becomes an enum,
+ * and unsupported keywords and formats are stripped
+ */
+function convertSchemaToGemini(schema: any, root: any, refs: string[] = []): any {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    return undefined;
+  }
+
+  if (typeof schema.$ref === 'string') {
+    // Recursive schemas can't be expressed, so a cycle ends in an unconstrained value
+    if (refs.includes(schema.$ref)) return undefined;
+    return convertSchemaToGemini(resolveSchemaRef(schema.$ref, root), root, [...refs, schema.$ref]);
+  }
+
+  const converted: any = {};
+
+  let types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.includes('null')) {
+    converted.nullable = true;
+    types = types.filter(type => type !== 'null');
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (types.length > 1) {
+    converted.anyOf = types.map(type => convertSchemaToGemini({ ...schema, type, anyOf: undefined, oneOf: undefined }, root, refs));
+    return converted;
+  }
+  if (Array.isArray(variants)) {
+    const nonNull = variants.filter(variant => variant?.type !== 'null');
+    if (nonNull.length < variants.length) converted.nullable = true;
+    const convertedVariants = nonNull.map(variant => convertSchemaToGemini(variant, root, refs)).filter(Boolean);
+    if (convertedVariants.length === 1) {
+      Object.assign(converted, convertedVariants[0]);
+    } else if (convertedVariants.length > 1) {
+      converted.anyOf = convertedVariants;
+    }
+  }
+
+  const type = types[0];
+  if (type) {
+    converted.type = type.toUpperCase();
+  }
+
+  for (const keyword of GEMINI_SCHEMA_KEYWORDS) {
+    if (schema[keyword] !== undefined) converted[keyword] = schema[keyword];
+  }
+
+  if (typeof schema.const === 'string') {
+    converted.enum = [schema.const];
+  } else if (Array.isArray(schema.enum) && schema.enum.every((value: unknown) => typeof value === 'string')) {
+    converted.enum = schema.enum;
+  }
+  if (converted.enum) {
+    converted.type = 'STRING';
+    converted.format = 'enum';
+  } else if (
+    (type === 'string' && GEMINI_STRING_FORMATS.includes(schema.format)) ||
+    ((type === 'number' || type === 'integer') && GEMINI_NUMBER_FORMATS.includes(schema.format))
+  ) {
+    converted.format = schema.format;
+  }
+
+  if (schema.items) {
+    converted.items = convertSchemaToGemini(Array.isArray(schema.items) ? schema.items[0] : schema.items, root, refs);
+  }
+
+  if (schema.properties && typeof schema.properties === 'object') {
+    const properties = Object.fromEntries(
+      Object.entries(schema.properties)
+        .map(([name, property]) => [name, convertSchemaToGemini(property, root, refs) ?? {}])
+    );
+    if (Object.keys(properties).length > 0) {
+      converted.properties = properties;
+      if (Array.isArray(schema.required)) {
+        converted.required = schema.required.filter((name: string) => name in properties);
+      }
+    }
+  }
+
+  return converted;
+}
+
+// "#/$defs/Address" -> root.$defs.Address
+function resolveSchemaRef(ref: string, root: any): any {
+  if (!ref.startsWith('#/')) return undefined;
+  return ref
+    .slice(2)
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node, segment) => node?.[segment], root);
+}
+
+/**
+ * Parse the JSON data of each server-sent event in a streamed response
+ * OpenAI-compatible APIs end the stream with a `[DONE]` event, which is skipped
+ */
+async function* readServerSentEvents(response: Response): AsyncIterableIterator<any> {
+  if (!response.body) {
+    throw new Error('Response body is null');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    // A stream may end without a newline after its last event
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+
+      const data = trimmed.slice('data:'.length).trim();
+      if (data === '[DONE]') continue;
+
+      try {
+        yield JSON.parse(data);
+      } catch (e) {
+        console.error('Failed to parse SSE data:', trimmed);
+      }
+    }
+
+    if (done) break;
+  }
+}
+
 /**
  * Create LLM adapter based on configuration
  */
@@ -249,6 +797,9 @@ export function createLLMAdapter(config: LLMConfig): LLMAdapter {
   switch (config.provider) {
     case 'anthropic':
       return new AnthropicAdapter(config);
+
+    case 'gemini':
+      return new GeminiAdapter(config);
     
     case 'openai':
     case 'groq':
@@ -0,0 +1,164 @@
+/**
+ * Local Tools
+ * In-process tool definitions served over an in-memory MCP transport,
+ * so they behave exactly like tools from a remote MCP server
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { MCPTool, ToolCallResult, ToolProgress } from './types';
+
+// Server name local tools are registered under unless another is given
+export const LOCAL_SERVER_NAME = 'local';
+
+export interface LocalToolContext {
+  signal: AbortSignal;
+  headers?: Record<string, string>; // Forwarded headers from the call's _meta
+  reportProgress(progress: ToolProgress): Promise<void>;
+}
+
+/**
+ * A tool implemented by a TypeScript function
+ * Handlers may return a full ToolCallResult, a string (text content) or any other
+ * value, which is sent as JSON text and, if it is an object, as structured content
+ */
+export interface LocalToolDefinition<TArgs = any> {
+  name: string;
+  description?: string;
+  inputSchema: MCPTool['inputSchema'];
+  outputSchema?: MCPTool['outputSchema'];
+  annotations?: MCPTool['annotations'];
+  componentId?: string; // Component rendered for this tool's results
+  handler: (args: TArgs, context: LocalToolContext) => unknown | Promise<unknown>;
+}
+
+/**
+ * Define an in-process tool; register it with MCPClient.registerTools()
+ *
+ * @example
+ * const getTime = defineTool<{ timezone: string }>({
+ *   name: 'get_time',
+ *   inputSchema: { type: 'object', properties: { timezone: { type: 'string' } }, required: ['timezone'] },
+ *   componentId: 'clock',
+ *   handler: ({ timezone }) => ({ time: new Date().toLocaleTimeString('en-US', { timeZone: timezone }) }),
+ * });
+ */
+export function defineTool<TArgs = any>(definition: LocalToolDefinition<TArgs>): LocalToolDefinition<TArgs> {
+  return definition;
+}
+
+/**
+ * Serves a set of local tools; every connection gets its own in-memory MCP server
+ */
+export class LocalToolServer {
+  private tools = new Map<string, LocalToolDefinition>();
+  private servers = new Set<Server>();
+
+  constructor(readonly name: string) {}
+
+  /**
+   * Add or replace tools, notifying connected clients that the tool list changed
+   */
+  addTools(tools: LocalToolDefinition[]): void {
+    for (const tool of tools) {
+      this.tools.set(tool.name, tool);
+    }
+
+    for (const server of this.servers) {
+      server.sendToolListChanged().catch(error => {
+        console.error(`Failed to notify clients of ${this.name} tool changes:`, error);
+      });
+    }
+  }
+
+  /**
+   * Start a server for a new connection and return the client end of its transport
+   */
+  createTransport(): Transport {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const server = this.createServer();
+
+    this.servers.add(server);
+    server.onclose = () => this.servers.delete(server);
+
+    // Messages sent before the server finishes starting are queued by the transport
+    server.connect(serverTransport).catch(error => {
+      console.error(`Failed to start local tool server ${this.name}:`, error);
+    });
+
+    return clientTransport;
+  }
+
+  private createServer(): Server {
+    const server = new Server(
+      { name: this.name, version: '1.0.0' },
+      { capabilities: { tools: { listChanged: true } } }
+    );
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [...this.tools.values()].map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        outputSchema: tool.outputSchema,
+        annotations: tool.annotations,
+        _meta: tool.componentId ? { componentId: tool.componentId } : undefined,
+      })),
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const tool = this.tools.get(request.params.name);
+      if (!tool) {
+        throw new Error(`Tool ${request.params.name} not found`);
+      }
+
+      const progressToken = request.params._meta?.progressToken;
+      const context: LocalToolContext = {
+        signal: extra.signal,
+        headers: (request.params._meta as any)?.headers,
+        reportProgress: async (progress) => {
+          if (progressToken === undefined) return;
+          await extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, ...progress },
+          });
+        },
+      };
+
+      try {
+        return toCallToolResult(await tool.handler(request.params.arguments ?? {}, context)) as any;
+      } catch (error) {
+        // Handler failures are tool errors the LLM can see, as with remote servers
+        return {
+          content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+          isError: true,
+        };
+      }
+    });
+
+    return server;
+  }
+}
+
+function toCallToolResult(value: unknown): ToolCallResult {
+  if (isToolCallResult(value)) {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    return { content: [{ type: 'text', text: value }] };
+  }
+
+  // Structured content must be an object; other values are only sent as text
+  const isObject = typeof value === 'object' && value !== null && !Array.isArray(value);
+  return {
+    content: [{ type: 'text', text: JSON.stringify(value ?? null) }],
+    structuredContent: isObject ? value : undefined,
+  };
+}
+
+function isToolCallResult(value: unknown): value is ToolCallResult {
+  return typeof value === 'object' && value !== null && Array.isArray((value as ToolCallResult).content);
+}
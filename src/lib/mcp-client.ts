@@ -2,22 +2,147 @@
  * MCP Client - Manages connections to MCP servers and tool execution
  */
 
+import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { auth, UnauthorizedError } from '@modelcontextprotocol/sdk/client/auth.js';
+import {
+  ToolListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  PromptListChangedNotificationSchema,
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  LoggingMessageNotificationSchema,
+  McpError,
+  ErrorCode,
+} from '@modelcontextprotocol/sdk/types.js';
 import type {
   MCPServerConfig,
+  MCPServerState,
+  MCPServerStatus,
+  MCPReconnectPolicy,
+  MCPToolNaming,
+  MCPAuthConfig,
   MCPTool,
   MCPResource,
+  MCPPrompt,
+  RenderedPrompt,
+  SamplingRequest,
+  SamplingResponse,
+  ElicitationRequest,
+  ElicitationResponse,
+  Message,
+  MCPLogEntry,
+  MCPLogLevel,
+  MCPLogQuery,
+  ToolCallOptions,
   ToolCallResult,
 } from './types';
+import { TOOL_NAME_SEPARATOR } from './types';
+import {
+  validateToolArguments,
+  validateStructuredContent,
+  validationErrorResult,
+} from './schema-validation';
+import { MCPOAuthProvider } from './mcp-oauth';
+import { LocalToolServer, LOCAL_SERVER_NAME, type LocalToolDefinition } from './local-tools';
+import { getOAuthSessionByState, getStoredToolList, saveToolList } from './database';
+import { ToolResultCache, cacheKey } from './tool-cache';
+import { CallScheduler } from './call-scheduler';
+import { ServerLogBuffer } from './server-logs';
+import { redactSecrets, redactConfig } from './config-env';
 
-export class MCPClient {
+// Default time allowed for a server to complete the initialize handshake
+const DEFAULT_CONNECT_TIMEOUT = 30000;
+
+// Restart policy applied when a connected server goes away unexpectedly
+const DEFAULT_RECONNECT_POLICY: Required<MCPReconnectPolicy> = {
+  maxAttempts: 5,
+  initialDelay: 1000,
+  maxDelay: 30000,
+};
+
+const DEFAULT_HEALTH_CHECK_INTERVAL = 30000;
+
+// Time a tool call may go without a result or progress notification
+const DEFAULT_TOOL_TIMEOUT = 60000;
+
+// Longest delay setTimeout accepts; tool calls run their own timer and give the SDK this one
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// How long cached tool results stay fresh unless the cache policy says otherwise
+const DEFAULT_CACHE_TTL = 60000;
+
+// How long a lazy server keeps running after its last tool call
+const DEFAULT_IDLE_TIMEOUT = 300000;
+
+// Where the authorization server sends the user back after consent; see setOAuthRedirectUrl
+const DEFAULT_OAUTH_REDIRECT_URL = 'http://localhost:3000/oauth/callback';
+
+export type SamplingHandler = (request: SamplingRequest) => Promise<SamplingResponse>;
+export type ElicitationHandler = (request: ElicitationRequest) => Promise<ElicitationResponse>;
+
+/**
+ * Emits:
+ * - `status` (MCPServerStatus) whenever a server's supervision state changes
+ * - `tools_changed` ({ serverName }) when a server's tools are registered, re-synced or removed
+ * - `resources_changed` ({ serverName }) when a server's resources are registered, re-synced or removed
+ * - `prompts_changed` ({ serverName }) when a server's prompts are registered, re-synced or removed
+ * - `log` (MCPLogEntry) for each logging notification or stderr line from a server
+ */
+export class MCPClient extends EventEmitter {
   private connections = new Map<string, Client>();
-  private tools = new Map<string, { serverName: string; tool: MCPTool }>();
+  // Keyed by the LLM-facing name; toolName is the name the server knows the tool by
+  private tools = new Map<string, { serverName: string; toolName: string; tool: MCPTool }>();
   private resources = new Map<string, { serverName: string; resource: MCPResource }>();
+  private prompts = new Map<string, { serverName: string; promptName: string; prompt: MCPPrompt }>();
+
+  // Supervision state
+  private configs = new Map<string, MCPServerConfig>();
+  private statuses = new Map<string, MCPServerStatus>();
+  private reconnectTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private healthChecks = new Map<string, ReturnType<typeof setInterval>>();
+  private closing = new Set<string>();
+
+  // Sampling
+  private samplingHandler: SamplingHandler | null = null;
+  private samplingUsage = new Map<string, number>();
+
+  // Elicitation
+  private elicitationHandler: ElicitationHandler | null = null;
+
+  // Sampling and elicitation requests each server awaits, and the timers of its tool calls
+  private pendingClientRequests = new Map<string, number>();
+  private callTimers = new Map<string, Set<() => void>>();
+
+  // In-process tool servers, keyed by server name
+  private localServers = new Map<string, LocalToolServer>();
+
+  // Results of read-only tools
+  private toolCache = new ToolResultCache();
+
+  // Call queues of servers with call limits
+  private schedulers = new Map<string, CallScheduler>();
+
+  // Recent log entries of every server, kept after it disconnects to help explain why
+  private logs = new ServerLogBuffer();
+
+  // Lazy servers: starts in progress, calls in flight, and timers that stop them when unused
+  private lazyStarts = new Map<string, Promise<void>>();
+  private lazyCalls = new Map<string, number>();
+  private idleTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  // OAuth
+  private oauthRedirectUrl = DEFAULT_OAUTH_REDIRECT_URL;
+  private authorizationUrls = new Map<string, string>();
 
   /**
    * Connect to an MCP server
+   * Lazy servers only have their tools listed here; the server starts on its first tool call
    */
   async connect(config: MCPServerConfig): Promise<void> {
     if (this.connections.has(config.name)) {
@@ -25,78 +150,205 @@ export class MCPClient {
       return;
     }
 
-    try {
-      let transport;
+    this.configs.set(config.name, config);
+    if (config.limits) {
+      this.schedulers.set(config.name, new CallScheduler(config.limits));
+    }
+    this.setStatus(config.name, 'connecting');
 
-      // Currently supporting stdio transport (most common for local servers)
-      if (config.transport === 'stdio') {
-        transport = new StdioClientTransport({
-          command: config.command,
-          args: config.args || [],
-          env: config.env,
-        });
-      } else {
-        throw new Error(`Transport ${config.transport} not yet implemented`);
+    try {
+      if (config.lazy) {
+        await this.prepareLazyServer(config);
+        this.setStatus(config.name, 'idle', { reconnectAttempts: 0, lastError: undefined });
+        console.log(`💤 Listed tools of lazy MCP server: ${config.name}`);
+        return;
       }
 
-      const client = new Client(
-        {
-          name: 'open-apps-sdk',
-          version: '0.1.0',
-        },
-        {
-          capabilities: {
-            sampling: {},
-          },
-        }
-      );
-
-      await client.connect(transport);
-
-      // Store connection
-      this.connections.set(config.name, client);
-
-      // Fetch and register tools
-      await this.registerToolsFromServer(config.name, client);
-
-      // Fetch and register resources
-      await this.registerResourcesFromServer(config.name, client);
-
+      await this.openConnection(config);
+      this.setStatus(config.name, 'ready', { reconnectAttempts: 0, lastError: undefined });
       console.log(`✅ Connected to MCP server: ${config.name}`);
     } catch (error) {
-      console.error(`Failed to connect to MCP server ${config.name}:`, error);
+      if (this.configs.get(config.name) !== config) {
+        throw error;
+      }
+      if (error instanceof UnauthorizedError) {
+        this.setUnauthorized(config.name);
+        throw error;
+      }
+      this.setStatus(config.name, 'failed', { lastError: errorMessage(error) });
+      console.error(`Failed to connect to MCP server ${config.name}: ${errorMessage(error)}`);
       throw error;
     }
   }
 
+  /**
+   * Register in-process tools defined with defineTool()
+   * They are served over an in-memory MCP transport, so they are listed, validated,
+   * called and mapped to components exactly like tools from a remote server.
+   * Registering more tools under the same server name adds them to it.
+   * Throws if the server name or a tool name already belongs to another server.
+   */
+  async registerTools(tools: LocalToolDefinition[], serverName: string = LOCAL_SERVER_NAME): Promise<void> {
+    const config = this.configs.get(serverName);
+    if (config && config.transport !== 'memory') {
+      throw new Error(`Server ${serverName} is already configured as a ${config.transport} server; register local tools under another name`);
+    }
+    for (const tool of tools) {
+      const owner = this.tools.get(tool.name)?.serverName;
+      if (owner && owner !== serverName) {
+        throw new Error(`Tool name collision: "${tool.name}" from ${serverName} is already provided by ${owner}`);
+      }
+    }
+
+    const existing = this.localServers.get(serverName);
+    if (existing && this.connections.has(serverName)) {
+      existing.addTools(tools);
+      return;
+    }
+
+    const local = existing ?? new LocalToolServer(serverName);
+    local.addTools(tools);
+    this.localServers.set(serverName, local);
+
+    await this.connect({ name: serverName, transport: 'memory', healthCheckInterval: 0 });
+  }
+
   /**
    * Disconnect from an MCP server
    */
   async disconnect(serverName: string): Promise<void> {
+    const pendingReconnect = this.reconnectTimers.get(serverName);
+    if (pendingReconnect) {
+      clearTimeout(pendingReconnect);
+      this.reconnectTimers.delete(serverName);
+    }
+
+    const lazy = this.configs.get(serverName)?.lazy === true;
+    this.clearIdleTimer(serverName);
+    this.lazyCalls.delete(serverName);
+
+    this.configs.delete(serverName);
+    this.statuses.delete(serverName);
+    this.localServers.delete(serverName);
+    this.schedulers.get(serverName)?.dispose(new Error(`Server ${serverName} disconnected`));
+    this.schedulers.delete(serverName);
+
     const client = this.connections.get(serverName);
     if (!client) {
-      console.warn(`Server ${serverName} is not connected`);
+      // An idle lazy server has tools listed but nothing to close
+      if (lazy) {
+        this.removeServer(serverName);
+      } else {
+        console.warn(`Server ${serverName} is not connected`);
+      }
       return;
     }
 
-    await client.close();
-    this.connections.delete(serverName);
+    this.closing.add(serverName);
+    try {
+      await client.close();
+    } finally {
+      this.closing.delete(serverName);
+    }
 
-    // Remove tools from this server
-    for (const [toolName, { serverName: sName }] of this.tools.entries()) {
-      if (sName === serverName) {
-        this.tools.delete(toolName);
-      }
+    this.removeServer(serverName);
+
+    console.log(`✅ Disconnected from MCP server: ${serverName}`);
+  }
+
+  /**
+   * Set the handler that answers sampling/createMessage requests from servers
+   */
+  setSamplingHandler(handler: SamplingHandler | null): void {
+    this.samplingHandler = handler;
+  }
+
+  /**
+   * Set the handler that asks the user for input on elicitation/create requests
+   */
+  setElicitationHandler(handler: ElicitationHandler | null): void {
+    this.elicitationHandler = handler;
+  }
+
+  /**
+   * Set the OAuth callback URL registered with authorization servers
+   * It must reach the /oauth/callback route, which calls finishAuthorization
+   */
+  setOAuthRedirectUrl(url: string): void {
+    this.oauthRedirectUrl = url;
+  }
+
+  /**
+   * Complete an OAuth authorization with the code from the callback, then connect the server
+   * Returns the name of the server the authorization was for
+   */
+  async finishAuthorization(state: string, code: string): Promise<string> {
+    const session = getOAuthSessionByState(state);
+    if (!session) {
+      throw new Error('Unknown or expired authorization state');
     }
 
-    // Remove resources from this server
-    for (const [uri, { serverName: sName }] of this.resources.entries()) {
-      if (sName === serverName) {
-        this.resources.delete(uri);
-      }
+    const config = this.configs.get(session.server_name);
+    if (!config?.oauth || !config.url) {
+      throw new Error(`Server ${session.server_name} is not configured for OAuth`);
     }
 
-    console.log(`✅ Disconnected from MCP server: ${serverName}`);
+    await auth(this.createOAuthProvider(config), { serverUrl: config.url, authorizationCode: code });
+    this.authorizationUrls.delete(config.name);
+
+    // A session that lost its authorization mid-way is restarted with the new tokens
+    if (this.connections.has(config.name)) {
+      await this.disconnect(config.name);
+    }
+    await this.connect(config);
+    return config.name;
+  }
+
+  /**
+   * Tokens a server has consumed through sampling
+   */
+  getSamplingUsage(serverName: string): number {
+    return this.samplingUsage.get(serverName) ?? 0;
+  }
+
+  /**
+   * Get the supervision status of a server
+   */
+  getServerStatus(serverName: string): MCPServerStatus | undefined {
+    const status = this.statuses.get(serverName);
+    return status ? this.withQueueStatus(status) : undefined;
+  }
+
+  /**
+   * Get the supervision status of every configured server
+   */
+  getServerStatuses(): MCPServerStatus[] {
+    return Array.from(this.statuses.values()).map(status => this.withQueueStatus(status));
+  }
+
+  /**
+   * Recent log entries from servers, oldest first
+   */
+  getLogs(query: MCPLogQuery = {}): MCPLogEntry[] {
+    return this.logs.query(query);
+  }
+
+  /**
+   * Ask a server to send log messages at or above a level (logging/setLevel)
+   * The level is kept and applied again when the server reconnects
+   */
+  async setLogLevel(serverName: string, level: MCPLogLevel): Promise<void> {
+    const client = this.connections.get(serverName);
+    const config = this.configs.get(serverName);
+    if (!client || !config) {
+      throw new Error(`Server ${serverName} not connected`);
+    }
+    if (!client.getServerCapabilities()?.logging) {
+      throw new Error(`Server ${serverName} does not support logging`);
+    }
+
+    await client.setLoggingLevel(level);
+    this.configs.set(serverName, { ...config, logLevel: level });
   }
 
   /**
@@ -106,28 +358,121 @@ export class MCPClient {
     return Array.from(this.tools.values()).map(({ tool }) => tool);
   }
 
+  /**
+   * Resolve an LLM-facing tool name to the server and tool it refers to
+   */
+  resolveTool(name: string): { serverName: string; toolName: string } | undefined {
+    const toolInfo = this.tools.get(name);
+    return toolInfo ? { serverName: toolInfo.serverName, toolName: toolInfo.toolName } : undefined;
+  }
+
+  /**
+   * Whether a tool call from the chat loop must wait for the user's approval
+   * Per-tool overrides win; otherwise 'destructive' mode (the default) follows the tool's annotations
+   */
+  requiresApproval(name: string): boolean {
+    const toolInfo = this.tools.get(name);
+    if (!toolInfo) {
+      return false;
+    }
+
+    const policy = this.configs.get(toolInfo.serverName)?.approval;
+    const override = policy?.tools?.[toolInfo.toolName];
+    if (override !== undefined) {
+      return override;
+    }
+
+    switch (policy?.mode ?? 'destructive') {
+      case 'always':
+        return true;
+      case 'never':
+        return false;
+      case 'destructive': {
+        // Per the MCP spec, tools are not read-only and are destructive unless annotated otherwise
+        const annotations = toolInfo.tool.annotations;
+        return annotations?.readOnlyHint !== true && annotations?.destructiveHint !== false;
+      }
+    }
+  }
+
   /**
    * Call a tool by name
+   * Arguments and structured output that don't match the tool's schemas come back
+   * as an error result instead of being sent to the server or rendered
    */
-  async callTool(name: string, args: Record<string, unknown>, headers?: Record<string, string>): Promise<ToolCallResult> {
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    headers?: Record<string, string>,
+    options: ToolCallOptions = {}
+  ): Promise<ToolCallResult> {
     const toolInfo = this.tools.get(name);
     if (!toolInfo) {
       throw new Error(`Tool ${name} not found`);
     }
 
+    const argumentErrors = validateToolArguments(toolInfo.tool, args);
+    if (argumentErrors.length > 0) {
+      return validationErrorResult(`Invalid arguments for tool ${name}`, argumentErrors);
+    }
+
+    const config = this.configs.get(toolInfo.serverName);
+    const requestHeaders = this.requestHeaders(toolInfo.serverName, headers);
+    const cacheTTL = this.cacheTTL(toolInfo.serverName, toolInfo.toolName, toolInfo.tool);
+    const key = cacheKey(toolInfo.toolName, args, requestHeaders);
+
+    if (cacheTTL > 0) {
+      const cached = this.toolCache.get(toolInfo.serverName, key);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const lazy = config?.lazy === true;
+    if (lazy) {
+      await this.startLazyServer(toolInfo.serverName);
+    }
+
     const client = this.connections.get(toolInfo.serverName);
     if (!client) {
       throw new Error(`Server ${toolInfo.serverName} not connected`);
     }
 
+    if (lazy) {
+      this.holdLazyServer(toolInfo.serverName);
+    }
+
     try {
-      // Include headers in the tool call if provided
-      const callArguments = headers ? { ...args, __headers__: headers } : args;
-      
-      const result = await client.callTool({
-        name,
-        arguments: callArguments,
-      });
+      const timeout = options.timeout
+        ?? config?.toolTimeouts?.[toolInfo.toolName]
+        ?? config?.toolTimeout
+        ?? DEFAULT_TOOL_TIMEOUT;
+
+      // Queued calls may start after a reconnect, so they use the connection current at that time
+      const sendCall = () => this.sendToolCall(
+        this.connections.get(toolInfo.serverName) ?? client,
+        toolInfo.serverName,
+        {
+          name: toolInfo.toolName,
+          arguments: args,
+          // Headers travel as request metadata so they never mix with the tool's arguments
+          ...(requestHeaders && { _meta: { headers: requestHeaders } }),
+        },
+        timeout,
+        options
+      );
+
+      const scheduler = this.schedulers.get(toolInfo.serverName);
+      const result = scheduler
+        ? await scheduler.run(toolInfo.toolName, sendCall, options.signal)
+        : await sendCall();
+
+      if (!result.isError) {
+        const outputErrors = validateStructuredContent(toolInfo.tool, result.structuredContent);
+        if (outputErrors.length > 0) {
+          return validationErrorResult(`Tool ${name} returned output that does not match its schema`, outputErrors);
+        }
+      }
 
       const resultMeta = (result as any)._meta as Record<string, unknown> | undefined;
       const toolMeta = toolInfo.tool._meta as Record<string, unknown> | undefined;
@@ -135,15 +480,123 @@ export class MCPClient {
         ? { ...(toolMeta || {}), ...(resultMeta || {}) }
         : undefined;
 
-      return {
+      const toolResult: ToolCallResult = {
         content: result.content as any,
         structuredContent: (result as any).structuredContent,
         _meta: mergedMeta,
         isError: result.isError as boolean | undefined,
       };
+
+      if (!toolResult.isError) {
+        if (cacheTTL > 0) {
+          this.toolCache.set(toolInfo.serverName, toolInfo.toolName, key, toolResult, cacheTTL);
+        } else {
+          this.invalidateAfterCall(toolInfo.serverName, toolInfo.toolName, toolInfo.tool);
+        }
+      }
+
+      return toolResult;
     } catch (error) {
-      console.error(`Error calling tool ${name}:`, error);
+      // The SDK rejects structured output that fails the schema, and servers reject bad arguments,
+      // with InvalidParams; surface both as tool errors like our own validation
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        return validationErrorResult(`Tool ${name} failed validation`, [error.message]);
+      }
+      if (error instanceof UnauthorizedError) {
+        this.setUnauthorized(toolInfo.serverName);
+      }
+      console.error(`Error calling tool ${name}: ${errorMessage(error)}`);
       throw error;
+    } finally {
+      if (lazy) {
+        this.releaseLazyServer(toolInfo.serverName);
+      }
+    }
+  }
+
+  /**
+   * Private: Send a tool call that fails after `timeout` ms without a result or progress.
+   * The clock does not run out while the server waits on a sampling or elicitation request,
+   * since those wait on the user and may take longer than the call's timeout
+   */
+  private async sendToolCall(
+    client: Client,
+    serverName: string,
+    params: { name: string; arguments: Record<string, any>; _meta?: Record<string, unknown> },
+    timeout: number,
+    options: ToolCallOptions
+  ) {
+    const controller = new AbortController();
+    const cancel = () => controller.abort(options.signal?.reason);
+    if (options.signal?.aborted) {
+      cancel();
+    } else {
+      options.signal?.addEventListener('abort', cancel, { once: true });
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restartTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        if (this.pendingClientRequests.get(serverName)) {
+          restartTimer();
+        } else {
+          controller.abort(new McpError(ErrorCode.RequestTimeout, 'Request timed out', { timeout }));
+        }
+      }, timeout);
+    };
+
+    const timers = this.callTimers.get(serverName) ?? new Set();
+    this.callTimers.set(serverName, timers.add(restartTimer));
+    restartTimer();
+
+    try {
+      // Our timer replaces the SDK's, which cannot tell that the server is waiting on us
+      return await client.callTool(params, undefined, {
+        timeout: MAX_TIMER_DELAY,
+        signal: controller.signal,
+        onprogress: progress => {
+          restartTimer();
+          options.onProgress?.(progress);
+        },
+      });
+    } finally {
+      clearTimeout(timer);
+      timers.delete(restartTimer);
+      if (timers.size === 0 && this.callTimers.get(serverName) === timers) {
+        this.callTimers.delete(serverName);
+      }
+      options.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  /**
+   * Private: Answer a sampling or elicitation request, holding the server's call timeouts meanwhile
+   */
+  private async answerClientRequest<T>(serverName: string, answer: () => Promise<T>): Promise<T> {
+    this.pendingClientRequests.set(serverName, (this.pendingClientRequests.get(serverName) ?? 0) + 1);
+    try {
+      return await answer();
+    } finally {
+      const pending = (this.pendingClientRequests.get(serverName) ?? 1) - 1;
+      if (pending > 0) {
+        this.pendingClientRequests.set(serverName, pending);
+      } else {
+        this.pendingClientRequests.delete(serverName);
+      }
+      // Calls get their full timeout again once the answer is back with the server
+      this.callTimers.get(serverName)?.forEach(restartTimer => restartTimer());
+    }
+  }
+
+  /**
+   * Drop cached tool results for one server, or for every server
+   */
+  clearToolCache(serverName?: string): void {
+    if (serverName) {
+      this.toolCache.invalidate(serverName);
+    } else {
+      this.toolCache.clear();
     }
   }
 
@@ -175,7 +628,56 @@ export class MCPClient {
         _meta: (content as any)?._meta,
       };
     } catch (error) {
-      console.error(`Error reading resource ${uri}:`, error);
+      console.error(`Error reading resource ${uri}: ${errorMessage(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * List all available prompts from all connected servers
+   */
+  async listPrompts(): Promise<MCPPrompt[]> {
+    return Array.from(this.prompts.values()).map(({ prompt }) => prompt);
+  }
+
+  /**
+   * Render a prompt with arguments into conversation messages
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<RenderedPrompt> {
+    const promptInfo = this.prompts.get(name);
+    if (!promptInfo) {
+      throw new Error(`Prompt ${name} not found`);
+    }
+
+    const client = this.connections.get(promptInfo.serverName);
+    if (!client) {
+      throw new Error(`Server ${promptInfo.serverName} not connected`);
+    }
+
+    // Thrown as InvalidParams, like servers report bad arguments, so callers can tell them from failures
+    const invalid = Object.keys(args).filter(key => typeof args[key] !== 'string');
+    if (invalid.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} arguments must be strings: ${invalid.join(', ')}`);
+    }
+    const missing = (promptInfo.prompt.arguments || [])
+      .filter(arg => arg.required && !args[arg.name])
+      .map(arg => arg.name);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} is missing required arguments: ${missing.join(', ')}`);
+    }
+
+    try {
+      const result = await client.getPrompt({ name: promptInfo.promptName, arguments: args });
+
+      return {
+        description: result.description,
+        messages: result.messages.map((message): Message => ({
+          role: message.role,
+          content: contentToText(message.content),
+        })),
+      };
+    } catch (error) {
+      console.error(`Error getting prompt ${name}: ${errorMessage(error)}`);
       throw error;
     }
   }
@@ -195,53 +697,896 @@ export class MCPClient {
   }
 
   /**
-   * Private: Register tools from a server
+   * Private: Open a connection, register its tools and resources, and supervise it
    */
-  private async registerToolsFromServer(serverName: string, client: Client): Promise<void> {
-    try {
-      const response = await client.listTools();
-      
-      for (const tool of response.tools) {
-        const mcpTool: MCPTool = {
-          name: tool.name,
-          description: tool.description,
-          inputSchema: tool.inputSchema as any,
-          _meta: (tool as any)._meta,
-        };
+  private async openConnection(config: MCPServerConfig): Promise<void> {
+    const transport = this.createTransport(config);
+    if (transport instanceof StdioClientTransport) {
+      this.captureStderr(config.name, transport);
+    }
 
-        this.tools.set(tool.name, { serverName, tool: mcpTool });
+    const client = new Client(
+      {
+        name: 'open-apps-sdk',
+        version: '0.1.0',
+      },
+      {
+        capabilities: {
+          sampling: {},
+          elicitation: {},
+        },
       }
+    );
 
-      console.log(`Registered ${response.tools.length} tools from ${serverName}`);
-    } catch (error) {
-      console.error(`Failed to register tools from ${serverName}:`, error);
+    // Registered before connecting, since servers may log as soon as they're initialized
+    client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      const { level, logger, data } = notification.params;
+      this.recordLog({
+        serverName: config.name,
+        level,
+        source: 'notification',
+        logger,
+        message: typeof data === 'string' ? data : JSON.stringify(data),
+        data: typeof data === 'string' ? undefined : data,
+      });
+    });
+
+    await this.connectWithTimeout(client, transport, config);
+
+    // disconnect() may have removed the server, or a reload replaced its config, meanwhile
+    if (this.configs.get(config.name) !== config) {
+      await client.close().catch(() => {});
+      throw new Error(`Server ${config.name} was disconnected while connecting`);
     }
-  }
 
-  /**
-   * Private: Register resources from a server
-   */
-  private async registerResourcesFromServer(serverName: string, client: Client): Promise<void> {
+    // Store connection
+    this.connections.set(config.name, client);
+
+    // Fetch and register tools, dropping the connection on a name collision
     try {
-      const response = await client.listResources();
-      
-      for (const resource of response.resources) {
-        const mcpResource: MCPResource = {
-          uri: resource.uri,
-          name: resource.name,
-          description: resource.description,
-          mimeType: resource.mimeType,
-          _meta: (resource as any)._meta,
-        };
+      await this.registerToolsFromServer(config.name, client);
+    } catch (error) {
+      this.removeServer(config.name);
+      await client.close().catch(() => {});
+      throw error;
+    }
 
-        this.resources.set(resource.uri, { serverName, resource: mcpResource });
-      }
+    // Fetch and register resources
+    await this.registerResourcesFromServer(config.name, client);
 
-      console.log(`Registered ${response.resources.length} resources from ${serverName}`);
-    } catch (error) {
-      console.error(`Failed to register resources from ${serverName}:`, error);
+    // Fetch and register prompts
+    await this.registerPromptsFromServer(config.name, client);
+
+    if (config.logLevel && client.getServerCapabilities()?.logging) {
+      await client.setLoggingLevel(config.logLevel).catch(error => {
+        console.warn(`Failed to set log level for ${config.name}: ${errorMessage(error)}`);
+      });
     }
-  }
+
+    // disconnect() closed the connection while it was registering; drop what it registered since
+    if (this.connections.get(config.name) !== client) {
+      if (!this.configs.has(config.name)) {
+        this.removeServer(config.name);
+      }
+      throw new Error(`Server ${config.name} was disconnected while connecting`);
+    }
+
+    // Let the server use the host LLM
+    client.setRequestHandler(CreateMessageRequestSchema, request =>
+      this.answerClientRequest(config.name, () => this.handleSamplingRequest(config, request.params))
+    );
+
+    // Let the server ask the user for more information
+    client.setRequestHandler(ElicitRequestSchema, async request => {
+      if (!this.elicitationHandler) {
+        throw new McpError(ErrorCode.InvalidRequest, `Elicitation is not available for ${config.name}`);
+      }
+
+      const elicitationHandler = this.elicitationHandler;
+      const response = await this.answerClientRequest(config.name, () => elicitationHandler({
+        serverName: config.name,
+        message: request.params.message,
+        requestedSchema: request.params.requestedSchema as ElicitationRequest['requestedSchema'],
+      }));
+      return { ...response };
+    });
+
+    // Re-sync when the server reports that its lists changed
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      if (this.connections.get(config.name) !== client) return;
+      try {
+        await this.registerToolsFromServer(config.name, client);
+      } catch (error) {
+        console.error(`Failed to re-sync tools from ${config.name}: ${errorMessage(error)}`);
+      }
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+      if (this.connections.get(config.name) !== client) return;
+      await this.registerResourcesFromServer(config.name, client);
+    });
+    client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+      if (this.connections.get(config.name) !== client) return;
+      await this.registerPromptsFromServer(config.name, client);
+    });
+
+    client.onclose = () => this.handleConnectionLost(config.name, client);
+    client.onerror = (error) => {
+      if (this.connections.get(config.name) === client) {
+        this.setStatus(config.name, 'degraded', { lastError: errorMessage(error) });
+      }
+    };
+
+    this.startHealthCheck(config, client);
+  }
+
+  /**
+   * Private: Drop a server's connection, tools and resources
+   */
+  private removeServer(serverName: string): void {
+    this.dropConnection(serverName);
+    this.toolCache.invalidate(serverName);
+
+    if (this.removeToolsFromServer(serverName)) {
+      this.emit('tools_changed', { serverName });
+    }
+  }
+
+  /**
+   * Private: Drop a server's connection, health check, resources and prompts, keeping its
+   * tools listed, as lazy servers do while they're stopped
+   */
+  private dropConnection(serverName: string): void {
+    this.connections.delete(serverName);
+
+    const healthCheck = this.healthChecks.get(serverName);
+    if (healthCheck) {
+      clearInterval(healthCheck);
+      this.healthChecks.delete(serverName);
+    }
+
+    if (this.removeResourcesFromServer(serverName)) {
+      this.emit('resources_changed', { serverName });
+    }
+
+    if (this.removePromptsFromServer(serverName)) {
+      this.emit('prompts_changed', { serverName });
+    }
+  }
+
+  /**
+   * Private: Remove a server's tools, returning whether any were registered
+   */
+  private removeToolsFromServer(serverName: string): boolean {
+    let removed = false;
+    for (const [toolName, { serverName: sName }] of this.tools.entries()) {
+      if (sName === serverName) {
+        this.tools.delete(toolName);
+        removed = true;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Private: Remove a server's resources, returning whether any were registered
+   */
+  private removeResourcesFromServer(serverName: string): boolean {
+    let removed = false;
+    for (const [uri, { serverName: sName }] of this.resources.entries()) {
+      if (sName === serverName) {
+        this.resources.delete(uri);
+        removed = true;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Private: Remove a server's prompts, returning whether any were registered
+   */
+  private removePromptsFromServer(serverName: string): boolean {
+    let removed = false;
+    for (const [name, { serverName: sName }] of this.prompts.entries()) {
+      if (sName === serverName) {
+        this.prompts.delete(name);
+        removed = true;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Private: Answer a server's sampling request within its token budget
+   */
+  private async handleSamplingRequest(config: MCPServerConfig, params: any) {
+    const sampling = config.sampling ?? {};
+    if (sampling.enabled === false || !this.samplingHandler) {
+      throw new McpError(ErrorCode.InvalidRequest, `Sampling is not enabled for ${config.name}`);
+    }
+
+    const used = this.getSamplingUsage(config.name);
+    let maxTokens: number = params.maxTokens;
+    if (sampling.tokenBudget !== undefined) {
+      const remaining = sampling.tokenBudget - used;
+      if (remaining <= 0) {
+        throw new McpError(ErrorCode.InvalidRequest, `Sampling token budget exhausted for ${config.name}`);
+      }
+      maxTokens = Math.min(maxTokens, remaining);
+    }
+
+    const response = await this.samplingHandler({
+      serverName: config.name,
+      messages: params.messages.map((message: any): Message => ({
+        role: message.role,
+        content: contentToText(message.content),
+      })),
+      systemPrompt: params.systemPrompt,
+      maxTokens,
+      temperature: params.temperature,
+      requireApproval: sampling.requireApproval ?? false,
+    });
+
+    // Without reported usage, assume the whole allowance was spent
+    this.samplingUsage.set(config.name, used + (response.tokensUsed ?? maxTokens));
+
+    return {
+      role: 'assistant' as const,
+      content: { type: 'text' as const, text: response.content },
+      model: response.model,
+      stopReason: response.stopReason,
+    };
+  }
+
+  /**
+   * Private: Handle a transport that closed without disconnect() being called
+   */
+  private handleConnectionLost(serverName: string, client: Client): void {
+    if (this.closing.has(serverName) || this.connections.get(serverName) !== client) {
+      return;
+    }
+
+    console.warn(`⚠️  Lost connection to MCP server: ${serverName}`);
+
+    // A lazy server restarts on its next tool call instead
+    if (this.configs.get(serverName)?.lazy) {
+      this.clearIdleTimer(serverName);
+      this.dropConnection(serverName);
+      this.setStatus(serverName, 'idle', { lastError: 'Connection lost' });
+      return;
+    }
+
+    this.removeServer(serverName);
+    this.scheduleReconnect(serverName, 1);
+  }
+
+  /**
+   * Private: List a lazy server's tools without leaving it running. The list saved in an
+   * earlier session is used while the server's launch settings are unchanged; otherwise
+   * the server is started once to fetch it.
+   */
+  private async prepareLazyServer(config: MCPServerConfig): Promise<void> {
+    const stored = getStoredToolList(config.name);
+    if (stored && stored.fingerprint === launchFingerprint(config)) {
+      this.registerToolList(config.name, JSON.parse(stored.tools));
+      return;
+    }
+
+    // registerToolsFromServer saves the list for next time
+    await this.openConnection(config);
+    await this.stopLazyServer(config.name);
+  }
+
+  /**
+   * Private: Start a stopped lazy server; concurrent calls share one start
+   * A failed start leaves the server idle, so the next call tries again
+   */
+  private async startLazyServer(serverName: string): Promise<void> {
+    if (this.connections.has(serverName)) {
+      return;
+    }
+
+    let start = this.lazyStarts.get(serverName);
+    if (!start) {
+      const config = this.configs.get(serverName)!;
+      start = (async () => {
+        this.setStatus(serverName, 'connecting');
+        try {
+          await this.openConnection(config);
+          this.setStatus(serverName, 'ready', { lastError: undefined });
+          console.log(`✅ Started lazy MCP server: ${serverName}`);
+        } catch (error) {
+          if (this.configs.get(serverName) !== config) {
+            throw error;
+          }
+          if (error instanceof UnauthorizedError) {
+            this.setUnauthorized(serverName);
+          } else {
+            this.setStatus(serverName, 'idle', { lastError: errorMessage(error) });
+          }
+          throw error;
+        }
+      })().finally(() => this.lazyStarts.delete(serverName));
+      this.lazyStarts.set(serverName, start);
+    }
+
+    await start;
+  }
+
+  /**
+   * Private: Keep a lazy server running while a call is in flight
+   */
+  private holdLazyServer(serverName: string): void {
+    this.clearIdleTimer(serverName);
+    this.lazyCalls.set(serverName, (this.lazyCalls.get(serverName) ?? 0) + 1);
+  }
+
+  /**
+   * Private: End a call to a lazy server, stopping the server once it has been unused for its idle timeout
+   */
+  private releaseLazyServer(serverName: string): void {
+    const active = (this.lazyCalls.get(serverName) ?? 1) - 1;
+    if (active > 0) {
+      this.lazyCalls.set(serverName, active);
+      return;
+    }
+    this.lazyCalls.delete(serverName);
+
+    const config = this.configs.get(serverName);
+    if (!config) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      this.idleTimers.delete(serverName);
+      try {
+        await this.stopLazyServer(serverName);
+      } catch (error) {
+        console.error(`Failed to stop idle MCP server ${serverName}: ${errorMessage(error)}`);
+      }
+
+      // A call may have started the server again while it was closing
+      if (this.configs.get(serverName) === config && !this.connections.has(serverName)) {
+        this.setStatus(serverName, 'idle', { lastError: undefined });
+        console.log(`💤 Stopped idle MCP server: ${serverName}`);
+      }
+    }, config.idleTimeout ?? DEFAULT_IDLE_TIMEOUT);
+
+    // Don't keep the process alive just to stop a server
+    timer.unref?.();
+    this.idleTimers.set(serverName, timer);
+  }
+
+  /**
+   * Private: Close a lazy server's connection, keeping its tools listed
+   */
+  private async stopLazyServer(serverName: string): Promise<void> {
+    this.clearIdleTimer(serverName);
+
+    const client = this.connections.get(serverName);
+    // Dropped first, so calls made while it closes start a new connection
+    this.dropConnection(serverName);
+    if (!client) {
+      return;
+    }
+
+    this.closing.add(serverName);
+    try {
+      await client.close();
+    } finally {
+      this.closing.delete(serverName);
+    }
+  }
+
+  private clearIdleTimer(serverName: string): void {
+    const timer = this.idleTimers.get(serverName);
+    if (timer) {
+      clearTimeout(timer);
+      this.idleTimers.delete(serverName);
+    }
+  }
+
+  /**
+   * Private: Restart a server with exponential backoff until the policy gives up
+   */
+  private scheduleReconnect(serverName: string, attempt: number): void {
+    const config = this.configs.get(serverName);
+    if (!config) {
+      return;
+    }
+
+    const policy = { ...DEFAULT_RECONNECT_POLICY, ...config.reconnect };
+    if (attempt > policy.maxAttempts) {
+      this.setStatus(serverName, 'failed');
+      console.error(`❌ Giving up on MCP server ${serverName} after ${policy.maxAttempts} reconnect attempts`);
+      return;
+    }
+
+    const delay = Math.min(policy.initialDelay * 2 ** (attempt - 1), policy.maxDelay);
+    this.setStatus(serverName, 'degraded', { reconnectAttempts: attempt });
+
+    const timer = setTimeout(async () => {
+      this.reconnectTimers.delete(serverName);
+      if (this.configs.get(serverName) !== config) {
+        return;
+      }
+
+      this.setStatus(serverName, 'connecting');
+      try {
+        await this.openConnection(config);
+        this.setStatus(serverName, 'ready', { reconnectAttempts: 0 });
+        console.log(`✅ Reconnected to MCP server: ${serverName}`);
+      } catch (error) {
+        // Disconnected while reconnecting: nothing is left to clean up or retry
+        if (this.configs.get(serverName) !== config) {
+          return;
+        }
+        this.removeServer(serverName);
+        if (error instanceof UnauthorizedError) {
+          // Retrying can't help until the user completes the authorization
+          this.setUnauthorized(serverName);
+          return;
+        }
+        this.setStatus(serverName, 'degraded', { lastError: errorMessage(error) });
+        this.scheduleReconnect(serverName, attempt + 1);
+      }
+    }, delay);
+
+    this.reconnectTimers.set(serverName, timer);
+  }
+
+  /**
+   * Private: Periodically ping a server, restarting it after repeated failures
+   */
+  private startHealthCheck(config: MCPServerConfig, client: Client): void {
+    const interval = config.healthCheckInterval ?? DEFAULT_HEALTH_CHECK_INTERVAL;
+    if (interval <= 0) {
+      return;
+    }
+
+    let failures = 0;
+    const timer = setInterval(async () => {
+      try {
+        await client.ping({ timeout: interval });
+        failures = 0;
+        if (this.statuses.get(config.name)?.state === 'degraded') {
+          this.setStatus(config.name, 'ready');
+        }
+      } catch (error) {
+        failures++;
+        this.setStatus(config.name, 'degraded', { lastError: errorMessage(error) });
+
+        // Closing the client triggers onclose, which schedules the restart
+        if (failures >= 2) {
+          await client.close().catch(() => {});
+        }
+      }
+    }, interval);
+
+    // Don't keep the process alive just for health checks
+    timer.unref?.();
+    this.healthChecks.set(config.name, timer);
+  }
+
+  /**
+   * Private: Update a server's status and notify listeners
+   */
+  private setStatus(
+    serverName: string,
+    state: MCPServerState,
+    updates: Partial<Pick<MCPServerStatus, 'lastError' | 'reconnectAttempts' | 'authorizationUrl'>> = {}
+  ): void {
+    const previous = this.statuses.get(serverName);
+    const status: MCPServerStatus = {
+      name: serverName,
+      state,
+      lastError: previous?.lastError,
+      reconnectAttempts: previous?.reconnectAttempts ?? 0,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.statuses.set(serverName, status);
+    this.emit('status', { ...status });
+  }
+
+  /**
+   * Private: Mark a server as waiting for the user to complete its OAuth authorization
+   */
+  private setUnauthorized(serverName: string): void {
+    this.setStatus(serverName, 'unauthorized', {
+      lastError: 'Authorization required',
+      authorizationUrl: this.authorizationUrls.get(serverName),
+    });
+  }
+
+  /**
+   * Private: OAuth provider for a server; the authorization URL it produces is
+   * published through the server's status
+   */
+  private createOAuthProvider(config: MCPServerConfig): MCPOAuthProvider {
+    return new MCPOAuthProvider(
+      config.name,
+      typeof config.oauth === 'object' ? config.oauth : {},
+      this.oauthRedirectUrl,
+      (authorizationUrl) => this.authorizationUrls.set(config.name, authorizationUrl.toString())
+    );
+  }
+
+  /**
+   * Private: Store a log entry and pass it on to `log` listeners
+   */
+  private recordLog(entry: Omit<MCPLogEntry, 'id' | 'timestamp'>): void {
+    this.emit('log', this.logs.add({
+      ...entry,
+      message: redactSecrets(entry.message),
+      data: entry.data === undefined ? undefined : redactConfig(entry.data),
+    }));
+  }
+
+  /**
+   * Private: Record each line a stdio server writes to stderr, still echoing it to
+   * our own stderr as it was before capture
+   */
+  private captureStderr(serverName: string, transport: StdioClientTransport): void {
+    let pending = '';
+    transport.stderr?.on('data', (chunk: Buffer) => {
+      const lines = (pending + chunk.toString()).split('\n');
+      pending = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const message = redactSecrets(line.trimEnd());
+        if (!message) continue;
+        process.stderr.write(`[${serverName}] ${message}\n`);
+        this.recordLog({ serverName, level: 'info', source: 'stderr', message });
+      }
+    });
+  }
+
+  /**
+   * Private: A copy of a status, with the call queue of servers that have call limits
+   */
+  private withQueueStatus(status: MCPServerStatus): MCPServerStatus {
+    const scheduler = this.schedulers.get(status.name);
+    return scheduler ? { ...status, queue: scheduler.status() } : { ...status };
+  }
+
+  /**
+   * Private: How long a tool's results are cached, 0 when they aren't
+   */
+  private cacheTTL(serverName: string, toolName: string, tool: MCPTool): number {
+    const cache = this.configs.get(serverName)?.cache;
+    if (!cache) {
+      return 0;
+    }
+
+    const policy = cache === true ? {} : cache;
+    const defaultTTL = policy.ttl ?? DEFAULT_CACHE_TTL;
+    const override = policy.tools?.[toolName];
+    if (override !== undefined) {
+      return override === true ? defaultTTL : override === false ? 0 : override;
+    }
+
+    return tool.annotations?.readOnlyHint === true ? defaultTTL : 0;
+  }
+
+  /**
+   * Private: A tool that isn't cached may have changed what cached tools return,
+   * so its success invalidates them: the tools listed in `invalidates`, or else the whole server
+   */
+  private invalidateAfterCall(serverName: string, toolName: string, tool: MCPTool): void {
+    const cache = this.configs.get(serverName)?.cache;
+    if (!cache || tool.annotations?.readOnlyHint === true) {
+      return;
+    }
+
+    const invalidates = cache === true ? undefined : cache.invalidates?.[toolName];
+    this.toolCache.invalidate(serverName, invalidates);
+  }
+
+  /**
+   * Private: Headers sent in a tool call's _meta: component-supplied headers on the
+   * server's forwardHeaders allowlist, plus static credentials for stdio servers
+   */
+  private requestHeaders(serverName: string, headers?: Record<string, string>): Record<string, string> | undefined {
+    const config = this.configs.get(serverName);
+    const allowed = new Set((config?.forwardHeaders || []).map(name => name.toLowerCase()));
+    const forwarded: Record<string, string> = {};
+    const dropped: string[] = [];
+
+    for (const [name, value] of Object.entries(headers || {})) {
+      if (allowed.has(name.toLowerCase())) {
+        forwarded[name] = value;
+      } else {
+        dropped.push(name);
+      }
+    }
+
+    if (dropped.length > 0) {
+      console.warn(
+        `Not forwarding headers to ${serverName}: ${dropped.join(', ')}. ` +
+        `Add them to "forwardHeaders" in mcp.config.json to allow them.`
+      );
+    }
+
+    // HTTP/SSE servers already get static credentials on the transport
+    const merged = config?.transport === 'stdio'
+      ? { ...forwarded, ...authHeaders(config.auth) }
+      : forwarded;
+
+    return Object.keys(merged).length > 0 ? merged : undefined;
+  }
+
+  /**
+   * Private: Create the transport for a server config
+   */
+  private createTransport(config: MCPServerConfig): Transport {
+    switch (config.transport) {
+      case 'stdio':
+        if (!config.command) {
+          throw new Error(`Server ${config.name} uses stdio transport but has no command`);
+        }
+        return new StdioClientTransport({
+          command: config.command,
+          args: config.args || [],
+          env: config.env,
+          stderr: 'pipe', // Captured into the server's logs by captureStderr
+        });
+
+      case 'sse':
+      case 'http': {
+        if (!config.url) {
+          throw new Error(`Server ${config.name} uses ${config.transport} transport but has no url`);
+        }
+        const url = new URL(config.url);
+        const headers = { ...config.headers, ...authHeaders(config.auth) };
+        const requestInit: RequestInit | undefined = Object.keys(headers).length > 0
+          ? { headers }
+          : undefined;
+
+        const authProvider = config.oauth ? this.createOAuthProvider(config) : undefined;
+
+        return config.transport === 'sse'
+          ? new SSEClientTransport(url, { requestInit, authProvider })
+          : new StreamableHTTPClientTransport(url, { requestInit, authProvider });
+      }
+
+      case 'memory': {
+        const local = this.localServers.get(config.name);
+        if (!local) {
+          throw new Error(`Server ${config.name} uses memory transport but has no tools registered with registerTools()`);
+        }
+        return local.createTransport();
+      }
+
+      default:
+        throw new Error(`Transport ${config.transport} not yet implemented`);
+    }
+  }
+
+  /**
+   * Private: Connect a client, giving up if the handshake exceeds the configured timeout
+   */
+  private async connectWithTimeout(client: Client, transport: Transport, config: MCPServerConfig): Promise<void> {
+    const timeout = config.timeout ?? DEFAULT_CONNECT_TIMEOUT;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new Error(`Timed out connecting to ${config.name} after ${timeout}ms`));
+      }, timeout);
+    });
+
+    try {
+      await Promise.race([client.connect(transport, { timeout }), timedOut]);
+    } catch (error) {
+      await transport.close().catch(() => {});
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Private: Register tools from a server, replacing any it registered before
+   */
+  private async registerToolsFromServer(serverName: string, client: Client): Promise<void> {
+    let response;
+    try {
+      response = await client.listTools();
+    } catch (error) {
+      console.error(`Failed to register tools from ${serverName}: ${errorMessage(error)}`);
+      return;
+    }
+
+    this.registerToolList(serverName, response.tools);
+
+    const config = this.configs.get(serverName);
+    if (config?.lazy) {
+      try {
+        saveToolList(serverName, launchFingerprint(config), response.tools);
+      } catch (error) {
+        console.warn(`Failed to save the tool list of ${serverName}: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Private: Register a server's tools under their exposed names, replacing any it registered before
+   */
+  private registerToolList(serverName: string, tools: any[]): void {
+    const naming = this.configs.get(serverName)?.toolNaming;
+    const exposed = new Map<string, { toolName: string; tool: MCPTool }>();
+
+    for (const tool of tools) {
+      const name = exposedToolName(serverName, tool.name, naming);
+
+      const owner = this.tools.get(name)?.serverName;
+      if (owner && owner !== serverName) {
+        throw new Error(
+          `Tool name collision: "${name}" from ${serverName} is already provided by ${owner}. ` +
+          `Set "toolNaming" for ${serverName} in mcp.config.json to prefix or alias its tools.`
+        );
+      }
+      if (exposed.has(name)) {
+        throw new Error(`Tool name collision: ${serverName} exposes "${name}" more than once`);
+      }
+
+      exposed.set(name, {
+        toolName: tool.name,
+        tool: {
+          name,
+          description: tool.description,
+          inputSchema: tool.inputSchema as any,
+          annotations: tool.annotations,
+          outputSchema: tool.outputSchema as any,
+          _meta: (tool as any)._meta,
+        },
+      });
+    }
+
+    this.removeToolsFromServer(serverName);
+    for (const [name, { toolName, tool }] of exposed) {
+      this.tools.set(name, { serverName, toolName, tool });
+    }
+
+    console.log(`Registered ${tools.length} tools from ${serverName}`);
+    this.emit('tools_changed', { serverName });
+  }
+
+  /**
+   * Private: Register resources from a server, replacing any it registered before
+   * Servers without the resources capability (such as local tools) are skipped
+   */
+  private async registerResourcesFromServer(serverName: string, client: Client): Promise<void> {
+    if (!client.getServerCapabilities()?.resources) {
+      return;
+    }
+
+    try {
+      const response = await client.listResources();
+
+      this.removeResourcesFromServer(serverName);
+      for (const resource of response.resources) {
+        const mcpResource: MCPResource = {
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType,
+          _meta: (resource as any)._meta,
+        };
+
+        this.resources.set(resource.uri, { serverName, resource: mcpResource });
+      }
+
+      console.log(`Registered ${response.resources.length} resources from ${serverName}`);
+      this.emit('resources_changed', { serverName });
+    } catch (error) {
+      console.error(`Failed to register resources from ${serverName}: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Private: Register prompts from a server, replacing any it registered before
+   * Prompts are optional, so servers without the capability are skipped
+   */
+  private async registerPromptsFromServer(serverName: string, client: Client): Promise<void> {
+    if (!client.getServerCapabilities()?.prompts) {
+      return;
+    }
+
+    try {
+      const response = await client.listPrompts();
+      const naming = this.configs.get(serverName)?.toolNaming;
+
+      this.removePromptsFromServer(serverName);
+      for (const prompt of response.prompts) {
+        // Prompts share the server's prefix, but aliases only apply to tools
+        const name = naming?.strategy === 'prefix'
+          ? exposedToolName(serverName, prompt.name, naming)
+          : prompt.name;
+
+        const owner = this.prompts.get(name)?.serverName;
+        if (owner && owner !== serverName) {
+          console.warn(`⚠️  Skipping prompt "${name}" from ${serverName}: already provided by ${owner}`);
+          continue;
+        }
+
+        this.prompts.set(name, {
+          serverName,
+          promptName: prompt.name,
+          prompt: {
+            name,
+            description: prompt.description,
+            arguments: prompt.arguments,
+          },
+        });
+      }
+
+      console.log(`Registered ${response.prompts.length} prompts from ${serverName}`);
+      this.emit('prompts_changed', { serverName });
+    } catch (error) {
+      console.error(`Failed to register prompts from ${serverName}: ${errorMessage(error)}`);
+    }
+  }
+}
+
+/**
+ * Name a server's tool is exposed under, according to its naming strategy
+ */
+function exposedToolName(serverName: string, toolName: string, naming?: MCPToolNaming): string {
+  switch (naming?.strategy) {
+    case 'prefix': {
+      const prefix = naming.prefix ?? serverName.replace(/[^a-zA-Z0-9_-]/g, '_');
+      return `${prefix}${TOOL_NAME_SEPARATOR}${toolName}`;
+    }
+    case 'alias':
+      return naming.aliases?.[toolName] ?? toolName;
+    default:
+      return toolName;
+  }
+}
+
+/**
+ * Hash of the settings that decide which server process is started; a saved tool
+ * list is only reused while it matches. Hashed so credentials aren't stored.
+ */
+function launchFingerprint(config: MCPServerConfig): string {
+  const { transport, command, args, env, url, headers, auth } = config;
+  return createHash('sha256')
+    .update(JSON.stringify({ transport, command, args, env, url, headers, auth }))
+    .digest('hex');
+}
+
+/**
+ * Turn static server credentials into request headers
+ */
+function authHeaders(auth?: MCPAuthConfig): Record<string, string> {
+  const headers: Record<string, string> = { ...auth?.headers };
+  if (auth?.bearerToken) {
+    headers['Authorization'] = `Bearer ${auth.bearerToken}`;
+  }
+  return headers;
+}
+
+/**
+ * Flatten prompt or sampling message content into the text form used by Message
+ */
+function contentToText(content: any): string {
+  switch (content?.type) {
+    case 'text':
+      return content.text;
+    case 'resource':
+      return content.resource?.text ?? `[Resource: ${content.resource?.uri}]`;
+    case 'resource_link':
+      return `[Resource: ${content.uri}]`;
+    default:
+      return `[${content?.type ?? 'unknown'} content]`;
+  }
+}
+
+// Errors end up in statuses shown in the UI, so secrets from the config are hidden
+function errorMessage(error: unknown): string {
+  return redactSecrets(error instanceof Error ? error.message : String(error));
 }
 
 // Singleton instance
@@ -0,0 +1,241 @@
+/**
+ * MCP Config Import
+ * Converts server definitions from other MCP clients' config files into
+ * mcp.config.json entries: Claude Desktop's claude_desktop_config.json and
+ * VS Code's .vscode/mcp.json (or the "mcp" section of its settings.json)
+ */
+
+import { validateServerName } from './mcp-config-schema';
+
+export type ImportedConfigFormat = 'claude-desktop' | 'vscode';
+
+export interface MCPConfigImport {
+  format: ImportedConfigFormat;
+  servers: Record<string, Record<string, unknown>>; // mcp.config.json server entries
+  warnings: string[]; // One per field or value that couldn't be carried over
+}
+
+export interface MCPConfigImportOptions {
+  workspaceFolder?: string; // Replaces ${workspaceFolder} in VS Code configs, default "."
+}
+
+// Fields copied as they are; anything else is reported and skipped
+const CLAUDE_DESKTOP_FIELDS = ['command', 'args', 'env'];
+const VSCODE_FIELDS = ['type', 'command', 'args', 'env', 'url', 'headers'];
+const VSCODE_TYPES = ['stdio', 'sse', 'http'];
+
+// ${name} or ${prefix:name} in VS Code configs
+const VSCODE_VARIABLE_PATTERN = /\$\{([^}]+)\}/g;
+
+/**
+ * Parse JSON with comments and trailing commas, as VS Code writes it
+ */
+export function parseJSONC(text: string): unknown {
+  let stripped = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+
+    if (inString) {
+      stripped += char;
+      if (char === '\\') {
+        stripped += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      stripped += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      stripped += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      stripped += char;
+    }
+  }
+
+  // Drop trailing commas, matching strings whole so commas inside them stay
+  return JSON.parse(stripped.replace(/,(\s*[}\]])|("(?:[^"\\]|\\.)*")/g, (match, closing, string) => string ?? closing));
+}
+
+/**
+ * Convert a parsed Claude Desktop or VS Code MCP config into mcp.config.json server entries
+ */
+export function importMCPServers(content: unknown, options: MCPConfigImportOptions = {}): MCPConfigImport {
+  if (!isObject(content)) {
+    throw new Error('Expected a JSON object');
+  }
+
+  if (isObject(content.servers)) {
+    return importVSCode(content, options);
+  }
+  // settings.json keeps the same structure under "mcp"
+  if (isObject(content.mcp) && isObject(content.mcp.servers)) {
+    return importVSCode(content.mcp, options);
+  }
+  if (isObject(content.mcpServers)) {
+    return importClaudeDesktop(content.mcpServers);
+  }
+
+  throw new Error('Not a Claude Desktop or VS Code MCP config: expected "mcpServers" or "servers"');
+}
+
+function importClaudeDesktop(definitions: Record<string, unknown>): MCPConfigImport {
+  const servers: Record<string, Record<string, unknown>> = {};
+  const warnings: string[] = [];
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    const path = `mcpServers.${name}`;
+    if (!acceptServer(name, definition, path, warnings)) continue;
+
+    const server: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(definition)) {
+      if (CLAUDE_DESKTOP_FIELDS.includes(key)) {
+        // Claude Desktop doesn't expand ${...}, so keep any as literal text
+        server[key] = mapStrings(value, text => text.replace(/\$\{/g, () => '$${'));
+      } else {
+        warnings.push(`${path}.${key}: not supported, skipped`);
+      }
+    }
+    servers[name] = server;
+  }
+
+  return { format: 'claude-desktop', servers, warnings };
+}
+
+function importVSCode(config: Record<string, unknown>, options: MCPConfigImportOptions): MCPConfigImport {
+  const servers: Record<string, Record<string, unknown>> = {};
+  const warnings: string[] = [];
+  const inputs = inputDescriptions(config.inputs);
+  const usedInputs = new Set<string>();
+  const definitions = config.servers as Record<string, unknown>;
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    const path = `servers.${name}`;
+    if (!acceptServer(name, definition, path, warnings)) continue;
+
+    const server: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(definition)) {
+      if (!VSCODE_FIELDS.includes(key)) {
+        warnings.push(key === 'envFile'
+          ? `${path}.envFile: per-server env files are not supported, skipped; move its variables to the .env file`
+          : `${path}.${key}: not supported, skipped`);
+        continue;
+      }
+
+      if (key === 'type') {
+        if (VSCODE_TYPES.includes(value as string)) {
+          server.transport = value;
+        } else {
+          warnings.push(`${path}.type: "${value}" is not supported, skipped`);
+        }
+        continue;
+      }
+
+      server[key] = mapStrings(value, text =>
+        translateVariables(text, `${path}.${key}`, options.workspaceFolder ?? '.', usedInputs, warnings)
+      );
+    }
+    servers[name] = server;
+  }
+
+  for (const id of usedInputs) {
+    const description = inputs.get(id);
+    warnings.push(
+      `inputs.${id}: VS Code prompts for this value, open-apps-sdk doesn't; set ${inputVariable(id)} in .env instead` +
+      (description ? ` (${description})` : '')
+    );
+  }
+
+  return { format: 'vscode', servers, warnings };
+}
+
+/**
+ * Rewrite VS Code variables as the environment references mcp.config.json understands
+ */
+function translateVariables(
+  text: string,
+  path: string,
+  workspaceFolder: string,
+  usedInputs: Set<string>,
+  warnings: string[]
+): string {
+  return text.replace(VSCODE_VARIABLE_PATTERN, (reference, variable: string) => {
+    if (variable.startsWith('input:')) {
+      const id = variable.slice('input:'.length);
+      usedInputs.add(id);
+      return `\${${inputVariable(id)}}`;
+    }
+    if (variable.startsWith('env:')) {
+      return `\${${variable.slice('env:'.length)}}`;
+    }
+    if (variable === 'workspaceFolder') {
+      return workspaceFolder;
+    }
+    if (variable === 'userHome') {
+      return '${HOME}';
+    }
+
+    warnings.push(`${path}: ${reference} has no equivalent and was left as is; replace it before loading`);
+    return reference;
+  });
+}
+
+// "api-key" -> "API_KEY"
+function inputVariable(id: string): string {
+  const name = id.replace(/[^A-Za-z0-9]+/g, '_').toUpperCase();
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function inputDescriptions(inputs: unknown): Map<string, string | undefined> {
+  const descriptions = new Map<string, string | undefined>();
+  if (Array.isArray(inputs)) {
+    for (const input of inputs) {
+      if (isObject(input) && typeof input.id === 'string') {
+        descriptions.set(input.id, typeof input.description === 'string' ? input.description : undefined);
+      }
+    }
+  }
+  return descriptions;
+}
+
+function acceptServer(
+  name: string,
+  definition: unknown,
+  path: string,
+  warnings: string[]
+): definition is Record<string, unknown> {
+  if (!isObject(definition)) {
+    warnings.push(`${path}: not an object, skipped`);
+    return false;
+  }
+
+  const nameErrors = validateServerName(name);
+  if (nameErrors.length > 0) {
+    warnings.push(`${path}: ${nameErrors[0]}, skipped`);
+    return false;
+  }
+
+  return true;
+}
+
+function mapStrings(value: unknown, map: (text: string) => string): unknown {
+  if (typeof value === 'string') {
+    return map(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, map));
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]));
+  }
+  return value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,258 @@
+/**
+ * MCP Config Schema
+ * JSON schema for mcp.config.json, and validation that reports each problem
+ * with the JSON path it was found at
+ */
+
+import Ajv from 'ajv';
+import type { ErrorObject } from 'ajv';
+import { TOOL_NAME_SEPARATOR } from './types';
+import { LOCAL_SERVER_NAME } from './local-tools';
+
+const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const stringMap = { type: 'object', additionalProperties: { type: 'string' } };
+const milliseconds = { type: 'integer', minimum: 0 };
+const positiveInteger = { type: 'integer', minimum: 1 };
+
+const serverSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    command: { type: 'string', minLength: 1 },
+    args: { type: 'array', items: { type: 'string' } },
+    transport: { enum: ['stdio', 'sse', 'http'] },
+    env: stringMap,
+    url: { type: 'string', format: 'uri' },
+    headers: stringMap,
+    timeout: milliseconds,
+    reconnect: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        maxAttempts: { type: 'integer', minimum: 0 },
+        initialDelay: milliseconds,
+        maxDelay: milliseconds,
+      },
+    },
+    healthCheckInterval: milliseconds,
+    toolNaming: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['strategy'],
+      properties: {
+        strategy: { enum: ['prefix', 'alias', 'error'] },
+        prefix: { type: 'string', minLength: 1 },
+        aliases: stringMap,
+      },
+    },
+    sampling: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        enabled: { type: 'boolean' },
+        requireApproval: { type: 'boolean' },
+        tokenBudget: { type: 'integer', minimum: 0 },
+      },
+    },
+    toolTimeout: milliseconds,
+    toolTimeouts: { type: 'object', additionalProperties: milliseconds },
+    approval: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        mode: { enum: ['always', 'destructive', 'never'] },
+        tools: { type: 'object', additionalProperties: { type: 'boolean' } },
+      },
+    },
+    // Object keywords don't apply to booleans, so `true` passes as is
+    cache: {
+      type: ['boolean', 'object'],
+      additionalProperties: false,
+      properties: {
+        ttl: milliseconds,
+        tools: { type: 'object', additionalProperties: { type: ['integer', 'boolean'], minimum: 0 } },
+        invalidates: { type: 'object', additionalProperties: { type: 'array', items: { type: 'string' } } },
+      },
+    },
+    limits: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        maxConcurrency: positiveInteger,
+        rateLimit: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['requests', 'interval'],
+          properties: {
+            requests: positiveInteger,
+            interval: positiveInteger,
+          },
+        },
+      },
+    },
+    logLevel: { enum: LOG_LEVELS },
+    auth: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        bearerToken: { type: 'string', minLength: 1 },
+        headers: stringMap,
+      },
+    },
+    oauth: {
+      type: ['boolean', 'object'],
+      additionalProperties: false,
+      properties: {
+        clientId: { type: 'string' },
+        clientSecret: { type: 'string' },
+        scope: { type: 'string' },
+      },
+    },
+    forwardHeaders: { type: 'array', items: { type: 'string', minLength: 1 } },
+    enabled: { type: 'boolean' },
+    lazy: { type: 'boolean' },
+    idleTimeout: positiveInteger,
+  },
+  allOf: [
+    // Without a transport, a url means http and anything else stdio
+    {
+      if: {
+        anyOf: [
+          { required: ['transport'], properties: { transport: { const: 'stdio' } } },
+          { not: { anyOf: [{ required: ['transport'] }, { required: ['url'] }] } },
+        ],
+      },
+      then: { required: ['command'] },
+    },
+    {
+      if: { required: ['transport'], properties: { transport: { enum: ['sse', 'http'] } } },
+      then: { required: ['url'] },
+    },
+  ],
+};
+
+export const MCP_CONFIG_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['mcpServers'],
+  properties: {
+    $schema: { type: 'string' },
+    _comment: { type: 'string' },
+    envFile: { type: 'string', minLength: 1 },
+    mcpServers: { type: 'object', additionalProperties: serverSchema },
+  },
+};
+
+// verbose adds the parent schema to errors, which unknown-key suggestions need
+const ajv = new Ajv({ allErrors: true, jsonPointers: true, verbose: true });
+const validateSchema = ajv.compile(MCP_CONFIG_SCHEMA);
+
+/**
+ * Validate a parsed mcp.config.json
+ * Returns one message per problem, prefixed with its path (e.g. "mcpServers.weather.timeout")
+ */
+export function validateMCPConfigFile(file: unknown): string[] {
+  const errors = validateSchema(file)
+    ? []
+    : (validateSchema.errors || [])
+        // "should match then schema" repeats the required error it wraps
+        .filter(error => error.keyword !== 'if')
+        .map(formatError);
+
+  const servers = (file as { mcpServers?: unknown } | null)?.mcpServers;
+  if (typeof servers === 'object' && servers !== null) {
+    for (const [name, server] of Object.entries(servers)) {
+      errors.push(...validateServerName(name).map(message => `mcpServers.${name}: ${message}`));
+
+      // Prefixed names are split at the first separator, so a prefix can't contain one
+      const prefix = (server as { toolNaming?: { prefix?: unknown } } | null)?.toolNaming?.prefix;
+      if (typeof prefix === 'string' && prefix.includes(TOOL_NAME_SEPARATOR)) {
+        errors.push(`mcpServers.${name}.toolNaming.prefix: must not contain "${TOOL_NAME_SEPARATOR}", which separates prefixes from tool names`);
+      }
+    }
+  }
+
+  return [...new Set(errors)];
+}
+
+/**
+ * Problems with a server name; names become tool prefixes and must not clash with built-ins
+ */
+export function validateServerName(name: string): string[] {
+  if (!name) {
+    return ['Server name is required'];
+  }
+  if (name === LOCAL_SERVER_NAME) {
+    return [`"${LOCAL_SERVER_NAME}" is reserved for tools registered in-process with registerTools()`];
+  }
+  if (name.includes(TOOL_NAME_SEPARATOR)) {
+    return [`Server names must not contain "${TOOL_NAME_SEPARATOR}", which separates prefixes from tool names`];
+  }
+  return [];
+}
+
+function formatError(error: ErrorObject): string {
+  const path = pointerToPath(error.dataPath) || '(root)';
+  const params = error.params as Record<string, any>;
+
+  switch (error.keyword) {
+    case 'additionalProperties': {
+      const key = params.additionalProperty as string;
+      const suggestion = closestKey(key, knownKeys(error.parentSchema));
+      return `${path}: unknown key "${key}"${suggestion ? `, did you mean "${suggestion}"?` : ''}`;
+    }
+    case 'required':
+      return `${path}: missing required key "${params.missingProperty}"`;
+    case 'enum':
+      return `${path}: must be one of ${(params.allowedValues as unknown[]).map(value => JSON.stringify(value)).join(', ')}`;
+    case 'type':
+      // Ajv joins the allowed types with commas
+      return `${path}: must be ${String(params.type).split(',').join(' or ')}`;
+    case 'format':
+      return `${path}: must be a valid ${params.format}`;
+    default:
+      return `${path}: ${error.message}`;
+  }
+}
+
+// "/mcpServers/weather/args/0" -> "mcpServers.weather.args[0]"
+function pointerToPath(pointer: string): string {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((path, segment) => (/^\d+$/.test(segment) ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment), '');
+}
+
+function knownKeys(schema: unknown): string[] {
+  return Object.keys((schema as { properties?: object } | undefined)?.properties ?? {});
+}
+
+// Suggest a key within two edits, for typos like "comand"
+function closestKey(key: string, candidates: string[]): string | undefined {
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance <= 2 && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+  return best?.candidate;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
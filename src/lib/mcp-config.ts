@@ -1,73 +1,375 @@
 /**
  * MCP Configuration Loader
- * Loads MCP server configurations from mcp.config.json
+ * Loads MCP server configurations from layered config files (see mcpConfigLayers),
+ * resolving ${VAR} and ${VAR:-default} references from the environment and an
+ * optional .env file
  */
 
-import type { MCPServerConfig } from './types';
-import { resolve } from 'path';
-import { existsSync } from 'fs';
+import type { MCPServerConfig, MCPTransportType, MCPReconnectPolicy, MCPToolNaming, MCPSamplingConfig, MCPApprovalPolicy, MCPCachePolicy, MCPCallLimits, MCPLogLevel, MCPAuthConfig, MCPOAuthConfig } from './types';
+import { resolve, dirname, basename, join } from 'path';
+import { existsSync, readFileSync, watch } from 'fs';
+import { homedir } from 'os';
+import { interpolateEnv, loadEnvFile, redactConfig } from './config-env';
+import { validateMCPConfigFile, validateServerName } from './mcp-config-schema';
+
+// Changes to the config file within this window are applied once
+const WATCH_DEBOUNCE = 200;
 
 interface MCPConfigFile {
+  envFile?: string; // Relative to the config file that sets it, default ".env" in the working directory
   mcpServers: Record<string, {
-    command: string;
+    command?: string;
     args?: string[];
-    transport?: 'stdio' | 'sse';
+    transport?: MCPTransportType;
     env?: Record<string, string>;
+    url?: string;
+    headers?: Record<string, string>;
+    timeout?: number;
+    reconnect?: MCPReconnectPolicy;
+    healthCheckInterval?: number;
+    toolNaming?: MCPToolNaming;
+    sampling?: MCPSamplingConfig;
+    toolTimeout?: number;
+    toolTimeouts?: Record<string, number>;
+    approval?: MCPApprovalPolicy;
+    cache?: boolean | MCPCachePolicy;
+    limits?: MCPCallLimits;
+    logLevel?: MCPLogLevel;
+    auth?: MCPAuthConfig;
+    oauth?: boolean | MCPOAuthConfig;
+    forwardHeaders?: string[];
+    enabled?: boolean;
+    lazy?: boolean;
+    idleTimeout?: number;
   }>;
 }
 
+export interface MCPConfigLayer {
+  source: 'user' | 'project' | 'environment' | 'override';
+  path: string;
+  required: boolean; // Only the MCP_CONFIG override must exist
+}
+
+// One field of the merged config and the file it came from
+export interface MCPConfigField {
+  path: string; // e.g. "mcpServers.weather.args"
+  value: unknown; // Resolved, with secrets redacted
+  origin: string; // Config file path
+}
+
+interface ResolvedMCPConfig {
+  file: MCPConfigFile;
+  origins: Map<string, string>;
+  loadedFrom: string[];
+  skipped: string[]; // Servers left out for missing environment variables, with the reason
+}
+
 /**
- * Load MCP server configurations from mcp.config.json
- * Falls back to empty config if file doesn't exist
+ * Config files in order of precedence, lowest first; later files override earlier ones:
+ * 1. user: ~/.open-apps-sdk/mcp.config.json (or in $OPEN_APPS_SDK_HOME), personal servers for every project
+ * 2. project: mcp.config.json in the working directory
+ * 3. environment: mcp.config.<NODE_ENV>.json in the working directory
+ * 4. override: the file named by MCP_CONFIG
  */
-export async function loadMCPConfig(): Promise<MCPServerConfig[]> {
-  const configPath = resolve(process.cwd(), 'mcp.config.json');
-  
-  if (!existsSync(configPath)) {
-    console.warn('⚠️  No mcp.config.json found. Create one to configure your MCP servers.');
-    console.warn('   See mcp.config.example.json for examples.');
-    return [];
+export function mcpConfigLayers(): MCPConfigLayer[] {
+  const cwd = process.cwd();
+  const userDir = process.env.OPEN_APPS_SDK_HOME || join(homedir(), '.open-apps-sdk');
+  const layers: MCPConfigLayer[] = [
+    { source: 'user', path: resolve(userDir, 'mcp.config.json'), required: false },
+    { source: 'project', path: resolve(cwd, 'mcp.config.json'), required: false },
+  ];
+
+  if (process.env.NODE_ENV) {
+    layers.push({ source: 'environment', path: resolve(cwd, `mcp.config.${process.env.NODE_ENV}.json`), required: false });
   }
+  if (process.env.MCP_CONFIG) {
+    layers.push({ source: 'override', path: resolve(cwd, process.env.MCP_CONFIG), required: true });
+  }
+
+  return layers;
+}
 
+/**
+ * Load MCP server configurations from every config layer, merged
+ * Falls back to empty config if no config file exists
+ */
+export async function loadMCPConfig(): Promise<MCPServerConfig[]> {
   try {
-    const configFile = await Bun.file(configPath).json() as MCPConfigFile;
-    
+    const resolved = resolveMCPConfig();
+    if (!resolved) {
+      console.warn('⚠️  No mcp.config.json found. Create one to configure your MCP servers.');
+      console.warn('   See mcp.config.example.json for examples.');
+      return [];
+    }
+
+    for (const reason of resolved.skipped) {
+      console.error(`❌ Skipping ${reason}`);
+    }
+
     const servers: MCPServerConfig[] = [];
     
-    for (const [name, config] of Object.entries(configFile.mcpServers)) {
+    for (const [name, config] of Object.entries(resolved.file.mcpServers)) {
       servers.push({
         name,
         command: config.command,
         args: config.args || [],
-        transport: config.transport || 'stdio',
+        transport: config.transport || (config.url ? 'http' : 'stdio'),
         env: config.env,
+        url: config.url,
+        headers: config.headers,
+        timeout: config.timeout,
+        reconnect: config.reconnect,
+        healthCheckInterval: config.healthCheckInterval,
+        toolNaming: config.toolNaming,
+        sampling: config.sampling,
+        toolTimeout: config.toolTimeout,
+        toolTimeouts: config.toolTimeouts,
+        approval: config.approval,
+        cache: config.cache,
+        limits: config.limits,
+        logLevel: config.logLevel,
+        auth: config.auth,
+        oauth: config.oauth,
+        forwardHeaders: config.forwardHeaders,
+        enabled: config.enabled,
+        lazy: config.lazy,
+        idleTimeout: config.idleTimeout,
       });
     }
     
-    console.log(`✅ Loaded ${servers.length} MCP server(s) from mcp.config.json`);
+    const files = resolved.loadedFrom.length === 1 ? basename(resolved.loadedFrom[0]!) : resolved.loadedFrom.join(', ');
+    console.log(`✅ Loaded ${servers.length} MCP server(s) from ${files}`);
     return servers;
   } catch (error) {
-    console.error('❌ Failed to load mcp.config.json:', error);
+    // The message already says what to fix; a stack trace would bury it
+    console.error('❌ Failed to load mcp.config.json:', error instanceof Error ? error.message : error);
     throw error;
   }
 }
 
 /**
- * Validate MCP configuration
+ * Every field of the merged config with the file it came from, for debugging which
+ * layer set what. Resolved secrets are redacted.
  */
-export function validateMCPConfig(config: MCPServerConfig): string[] {
-  const errors: string[] = [];
-  
-  if (!config.name) {
-    errors.push('Server name is required');
+export function explainMCPConfig(): MCPConfigField[] {
+  const resolved = resolveMCPConfig();
+  if (!resolved) {
+    return [];
+  }
+
+  return [...resolved.origins.entries()].map(([path, origin]) => ({
+    path,
+    value: redactConfig(valueAt(resolved.file, path)),
+    origin,
+  }));
+}
+
+/**
+ * Merge, interpolate and validate the config layers; null when there are none
+ */
+function resolveMCPConfig(): ResolvedMCPConfig | null {
+  const merged: Record<string, unknown> = {};
+  const origins = new Map<string, string>();
+  const loadedFrom: string[] = [];
+
+  for (const layer of mcpConfigLayers()) {
+    if (!existsSync(layer.path)) {
+      if (layer.required) {
+        throw new Error(`MCP_CONFIG points to ${layer.path}, which does not exist`);
+      }
+      continue;
+    }
+
+    let content: unknown;
+    try {
+      content = JSON.parse(readFileSync(layer.path, 'utf8'));
+    } catch (error) {
+      throw new Error(`${layer.path} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!isPlainObject(content)) {
+      throw new Error(`${layer.path} must contain a JSON object`);
+    }
+
+    mergeLayer(merged, content, '', layer.path, origins);
+    loadedFrom.push(layer.path);
+  }
+
+  if (loadedFrom.length === 0) {
+    return null;
+  }
+
+  // A relative envFile is relative to the file that set it
+  const envFileOrigin = origins.get('envFile');
+  const envFile = typeof merged.envFile === 'string' && envFileOrigin
+    ? resolve(dirname(envFileOrigin), merged.envFile)
+    : resolve(process.cwd(), '.env');
+
+  // Variables already in the environment win over the .env file
+  const env = { ...loadEnvFile(envFile), ...process.env };
+  const skipped: string[] = [];
+  let interpolated = merged;
+  if (isPlainObject(merged.mcpServers)) {
+    const mcpServers: Record<string, unknown> = {};
+    for (const [name, server] of Object.entries(merged.mcpServers)) {
+      // Disabled servers never start, so their variables needn't be set
+      if (isPlainObject(server) && server.enabled === false) {
+        mcpServers[name] = server;
+        continue;
+      }
+
+      // A missing variable only keeps the server that uses it from loading
+      const missing: string[] = [];
+      const resolved = interpolateEnv(server, env, missing, `mcpServers.${name}`);
+      if (missing.length > 0) {
+        skipped.push(`${name}: missing environment variables ${missing.join(', ')}`);
+        forgetOrigins(origins, `mcpServers.${name}`);
+      } else {
+        mcpServers[name] = resolved;
+      }
+    }
+    interpolated = { ...merged, mcpServers };
+  }
+
+  // Checked after merging and interpolation, so "${TIMEOUT}" is judged by the value it resolves to
+  // and a layer may complete a server another layer started
+  const errors = validateMCPConfigFile(interpolated);
+  if (errors.length > 0) {
+    const files = loadedFrom.length > 1 ? ` (merged from ${loadedFrom.join(', ')})` : '';
+    throw new Error(`Invalid mcp.config.json${files}:\n${errors.map(error => `- ${error}`).join('\n')}`);
+  }
+
+  return { file: interpolated as unknown as MCPConfigFile, origins, loadedFrom, skipped };
+}
+
+/**
+ * Merge one layer into the config: objects merge key by key, anything else
+ * (including arrays) replaces, and null removes the key, e.g. to drop a server
+ */
+function mergeLayer(
+  target: Record<string, unknown>,
+  layer: Record<string, unknown>,
+  prefix: string,
+  origin: string,
+  origins: Map<string, string>
+): void {
+  for (const [key, value] of Object.entries(layer)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (value === null) {
+      delete target[key];
+      forgetOrigins(origins, path);
+    } else if (isPlainObject(value)) {
+      if (!isPlainObject(target[key])) {
+        target[key] = {};
+        forgetOrigins(origins, path);
+      }
+      mergeLayer(target[key] as Record<string, unknown>, value, path, origin, origins);
+      // Empty objects are still fields someone set
+      if (Object.keys(value).length === 0 && Object.keys(target[key] as object).length === 0) {
+        origins.set(path, origin);
+      }
+    } else {
+      target[key] = value;
+      forgetOrigins(origins, path);
+      origins.set(path, origin);
+    }
+  }
+}
+
+function forgetOrigins(origins: Map<string, string>, path: string): void {
+  for (const key of origins.keys()) {
+    if (key === path || key.startsWith(`${path}.`)) {
+      origins.delete(key);
+    }
+  }
+}
+
+function valueAt(object: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], object);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export interface MCPConfigDiff {
+  added: MCPServerConfig[];
+  removed: string[]; // Server names
+  changed: MCPServerConfig[]; // New configs of servers whose settings differ
+}
+
+/**
+ * Compare the running server configs with newly loaded ones
+ */
+export function diffMCPConfigs(current: MCPServerConfig[], next: MCPServerConfig[]): MCPConfigDiff {
+  const currentByName = new Map(current.map(config => [config.name, config]));
+  const nextNames = new Set(next.map(config => config.name));
+
+  return {
+    added: next.filter(config => !currentByName.has(config.name)),
+    removed: current.filter(config => !nextNames.has(config.name)).map(config => config.name),
+    changed: next.filter(config => {
+      const previous = currentByName.get(config.name);
+      return previous !== undefined && JSON.stringify(previous) !== JSON.stringify(config);
+    }),
+  };
+}
+
+/**
+ * Call onChange whenever one of the config files is written, debounced
+ * Directories are watched, since editors often replace files rather than write to them;
+ * layers whose directory doesn't exist (e.g. no ~/.open-apps-sdk) are skipped.
+ * Returns a function that stops watching.
+ */
+export function watchMCPConfig(
+  onChange: () => void,
+  configPaths: string[] = mcpConfigLayers().map(layer => layer.path)
+): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const filesByDirectory = new Map<string, Set<string>>();
+  for (const configPath of configPaths) {
+    const directory = dirname(configPath);
+    if (!existsSync(directory)) continue;
+    if (!filesByDirectory.has(directory)) filesByDirectory.set(directory, new Set());
+    filesByDirectory.get(directory)!.add(basename(configPath));
   }
+
+  const watchers = [...filesByDirectory].map(([directory, fileNames]) =>
+    watch(directory, (_event, changedFile) => {
+      if (!changedFile || !fileNames.has(changedFile)) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        onChange();
+      }, WATCH_DEBOUNCE);
+    })
+  );
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    watchers.forEach(watcher => watcher.close());
+  };
+}
+
+/**
+ * Validate a single server configuration
+ * Config files are checked in full by validateMCPConfigFile when they're loaded
+ */
+export function validateMCPConfig(config: MCPServerConfig): string[] {
+  const errors: string[] = [...validateServerName(config.name)];
+  const remote = config.transport === 'sse' || config.transport === 'http';
   
-  if (!config.command) {
+  if (!remote && !config.command) {
     errors.push('Command is required');
   }
+
+  if (remote && !config.url) {
+    errors.push(`URL is required for the ${config.transport} transport`);
+  }
   
-  if (!['stdio', 'sse'].includes(config.transport)) {
-    errors.push('Transport must be either "stdio" or "sse"');
+  if (!['stdio', 'sse', 'http'].includes(config.transport)) {
+    errors.push('Transport must be one of "stdio", "sse" or "http"');
   }
   
   return errors;
@@ -0,0 +1,112 @@
+/**
+ * MCP OAuth
+ * OAuth 2.1 client provider for remote MCP servers, persisting registration,
+ * PKCE verifiers and tokens per server in the SQLite database
+ */
+
+import type { OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js';
+import type {
+  OAuthClientInformation,
+  OAuthClientInformationFull,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import { getOAuthSession, saveOAuthSession } from './database';
+import type { MCPOAuthConfig } from './types';
+
+const CLIENT_NAME = 'Open Apps SDK';
+
+export class MCPOAuthProvider implements OAuthClientProvider {
+  constructor(
+    private readonly serverName: string,
+    private readonly config: MCPOAuthConfig,
+    private readonly callbackUrl: string,
+    private readonly onRedirect: (authorizationUrl: URL) => void
+  ) {}
+
+  get redirectUrl(): string {
+    return this.callbackUrl;
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: CLIENT_NAME,
+      redirect_uris: [this.callbackUrl],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: this.config.clientSecret ? 'client_secret_post' : 'none',
+      scope: this.config.scope,
+    };
+  }
+
+  /**
+   * A fresh state per authorization; the callback route uses it to find the server
+   */
+  state(): string {
+    const state = crypto.randomUUID();
+    saveOAuthSession(this.serverName, { state });
+    return state;
+  }
+
+  clientInformation(): OAuthClientInformation | undefined {
+    if (this.config.clientId) {
+      return { client_id: this.config.clientId, client_secret: this.config.clientSecret };
+    }
+    return parseJSON<OAuthClientInformation>(getOAuthSession(this.serverName)?.client_information);
+  }
+
+  saveClientInformation(clientInformation: OAuthClientInformationFull): void {
+    saveOAuthSession(this.serverName, { client_information: JSON.stringify(clientInformation) });
+  }
+
+  tokens(): OAuthTokens | undefined {
+    return parseJSON<OAuthTokens>(getOAuthSession(this.serverName)?.tokens);
+  }
+
+  saveTokens(tokens: OAuthTokens): void {
+    // Refresh responses may omit the refresh token, which then stays valid
+    const refreshToken = tokens.refresh_token ?? this.tokens()?.refresh_token;
+    saveOAuthSession(this.serverName, {
+      tokens: JSON.stringify({ ...tokens, refresh_token: refreshToken }),
+      code_verifier: null,
+      state: null,
+    });
+  }
+
+  redirectToAuthorization(authorizationUrl: URL): void {
+    this.onRedirect(authorizationUrl);
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    saveOAuthSession(this.serverName, { code_verifier: codeVerifier });
+  }
+
+  codeVerifier(): string {
+    const codeVerifier = getOAuthSession(this.serverName)?.code_verifier;
+    if (!codeVerifier) {
+      throw new Error(`No pending authorization for ${this.serverName}`);
+    }
+    return codeVerifier;
+  }
+
+  invalidateCredentials(scope: 'all' | 'client' | 'tokens' | 'verifier'): void {
+    switch (scope) {
+      case 'all':
+        saveOAuthSession(this.serverName, { client_information: null, tokens: null, code_verifier: null, state: null });
+        break;
+      case 'client':
+        saveOAuthSession(this.serverName, { client_information: null });
+        break;
+      case 'tokens':
+        saveOAuthSession(this.serverName, { tokens: null });
+        break;
+      case 'verifier':
+        saveOAuthSession(this.serverName, { code_verifier: null });
+        break;
+    }
+  }
+}
+
+function parseJSON<T>(value: string | null | undefined): T | undefined {
+  return value ? (JSON.parse(value) as T) : undefined;
+}
@@ -0,0 +1,74 @@
+/**
+ * Schema Validation
+ * Validates tool arguments and structured output against the JSON schemas
+ * advertised by MCP servers
+ */
+
+import Ajv from 'ajv';
+import type { ValidateFunction } from 'ajv';
+import type { MCPTool, ToolCallResult } from './types';
+
+const ajv = new Ajv({ allErrors: true });
+
+// Compiled validators keyed by schema object; tools re-synced from a server get fresh schemas
+const validators = new WeakMap<object, ValidateFunction | null>();
+
+/**
+ * Validate tool arguments against the tool's inputSchema
+ * Returns a list of human-readable errors (empty when the arguments are valid)
+ */
+export function validateToolArguments(tool: MCPTool, args: unknown): string[] {
+  return validate(tool.inputSchema, args, 'arguments');
+}
+
+/**
+ * Validate structuredContent against the tool's outputSchema
+ * Tools without an outputSchema accept any structured content
+ */
+export function validateStructuredContent(tool: MCPTool, structuredContent: unknown): string[] {
+  if (!tool.outputSchema) {
+    return [];
+  }
+
+  if (structuredContent === undefined) {
+    return ['structuredContent is required by the output schema'];
+  }
+
+  return validate(tool.outputSchema, structuredContent, 'structuredContent');
+}
+
+/**
+ * Build the tool error returned to the caller (and the LLM) when validation fails
+ */
+export function validationErrorResult(message: string, errors: string[]): ToolCallResult {
+  return {
+    content: [{ type: 'text', text: `${message}:\n${errors.map(e => `- ${e}`).join('\n')}` }],
+    isError: true,
+  };
+}
+
+function validate(schema: object, data: unknown, label: string): string[] {
+  const validator = getValidator(schema);
+  if (!validator || validator(data)) {
+    return [];
+  }
+
+  return (validator.errors || []).map(error => `${label}${error.dataPath} ${error.message}`);
+}
+
+function getValidator(schema: object): ValidateFunction | null {
+  if (validators.has(schema)) {
+    return validators.get(schema) ?? null;
+  }
+
+  let validator: ValidateFunction | null = null;
+  try {
+    validator = ajv.compile(schema);
+  } catch (error) {
+    // A schema we can't compile shouldn't block the tool; the server still validates its own input
+    console.warn(`Skipping validation for an invalid JSON schema: ${(error as Error).message}`);
+  }
+
+  validators.set(schema, validator);
+  return validator;
+}
@@ -0,0 +1,75 @@
+/**
+ * Server Logs
+ * Ring buffer of log entries from MCP servers: logging notifications and the
+ * stderr output of stdio servers
+ */
+
+import type { MCPLogEntry, MCPLogLevel, MCPLogQuery } from './types';
+
+// Entries kept per server; the oldest are dropped first
+export const DEFAULT_LOG_CAPACITY = 1000;
+
+// Severity order from RFC 5424, as used by MCP logging
+export const LOG_LEVELS: MCPLogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+export class ServerLogBuffer {
+  private entries = new Map<string, MCPLogEntry[]>();
+  private nextId = 1;
+
+  constructor(private readonly capacity: number = DEFAULT_LOG_CAPACITY) {}
+
+  add(entry: Omit<MCPLogEntry, 'id' | 'timestamp'>): MCPLogEntry {
+    const logEntry: MCPLogEntry = { ...entry, id: this.nextId++, timestamp: new Date().toISOString() };
+
+    let serverEntries = this.entries.get(entry.serverName);
+    if (!serverEntries) {
+      serverEntries = [];
+      this.entries.set(entry.serverName, serverEntries);
+    }
+
+    serverEntries.push(logEntry);
+    if (serverEntries.length > this.capacity) {
+      serverEntries.splice(0, serverEntries.length - this.capacity);
+    }
+
+    return logEntry;
+  }
+
+  /**
+   * Entries matching a query, oldest first; with a limit, the most recent ones
+   */
+  query(query: MCPLogQuery = {}): MCPLogEntry[] {
+    const sources = query.serverName
+      ? [this.entries.get(query.serverName) ?? []]
+      : [...this.entries.values()];
+
+    const search = query.search?.toLowerCase();
+    const matches = sources
+      .flat()
+      .filter(entry => matchesLevel(entry, query.level))
+      .filter(entry => query.since === undefined || entry.id > query.since)
+      .filter(entry => !search || entry.message.toLowerCase().includes(search))
+      .sort((a, b) => a.id - b.id);
+
+    return query.limit !== undefined ? matches.slice(-query.limit) : matches;
+  }
+
+  clear(serverName?: string): void {
+    if (serverName) {
+      this.entries.delete(serverName);
+    } else {
+      this.entries.clear();
+    }
+  }
+}
+
+/**
+ * Whether an entry is at or above a minimum level
+ */
+export function matchesLevel(entry: MCPLogEntry, level?: MCPLogLevel): boolean {
+  return !level || LOG_LEVELS.indexOf(entry.level) >= LOG_LEVELS.indexOf(level);
+}
+
+export function isLogLevel(value: unknown): value is MCPLogLevel {
+  return LOG_LEVELS.includes(value as MCPLogLevel);
+}
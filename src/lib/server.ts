@@ -3,15 +3,18 @@
  * Server-side functionality for MCP servers and LLM adapters
  */
 
-export { loadMCPConfig, validateMCPConfig } from './mcp-config';
+export { loadMCPConfig, validateMCPConfig, explainMCPConfig, mcpConfigLayers } from './mcp-config';
 export { createLLMAdapter } from './llm-adapter';
 export { getMCPClient, MCPClient } from './mcp-client';
+export { defineTool, LOCAL_SERVER_NAME } from './local-tools';
 export { getDatabase, createConversation, getConversation, getAllConversations, updateConversation, deleteConversation, createMessage, getMessage, getMessagesByConversation, updateMessage, deleteMessage, parseStoredMessage, generateConversationTitle } from './database';
 export { loadComponent, preloadComponents, clearComponentCache, DynamicComponent } from './component-loader';
 export { registerComponents, registerComponent, getComponent, renderComponent, getRegisteredComponents, getComponentForTool, loadComponentConfig } from './component-registry';
 export { initializeMCPServers, PORT, llmAdapter, mcpClient, conversations, wsClients, broadcastToClients } from '../server/init';
-export type { MCPServerConfig, LLMConfig, Message, MCPTool, MCPResource, ChatCompletionRequest, ChatCompletionResponse, ChatCompletionChunk, ToolCall, WSMessage, Conversation } from './types';
+export type { MCPServerConfig, MCPServerStatus, MCPServerState, MCPReconnectPolicy, LLMConfig, Message, MCPTool, MCPToolAnnotations, MCPApprovalPolicy, MCPApprovalMode, MCPCachePolicy, MCPCallLimits, MCPCallQueueStatus, MCPLogLevel, MCPLogEntry, MCPLogQuery, MCPAuthConfig, MCPOAuthConfig, ToolApprovalRequest, ToolApprovalResponse, MCPResource, MCPPrompt, MCPPromptArgument, RenderedPrompt, SamplingRequest, SamplingResponse, ElicitationRequest, ElicitationResponse, ElicitationField, ToolProgress, ToolCallOptions, ChatCompletionRequest, ChatCompletionResponse, ChatCompletionChunk, ToolCall, ToolCallDelta, ToolCallProviderMetadata, WSMessage, Conversation } from './types';
 export type { Conversation as DBConversation, StoredMessage, CreateMessageParams } from './database';
+export type { LocalToolDefinition, LocalToolContext } from './local-tools';
+export type { MCPConfigLayer, MCPConfigField } from './mcp-config';
 export type { ComponentMetadata, ComponentLoaderConfig } from './component-loader';
 export type { ComponentRegistrationConfig } from './component-registry';
-export type { LLMAdapter, OpenAICompatibleAdapter, AnthropicAdapter } from './llm-adapter';
\ No newline at end of file
+export type { LLMAdapter, OpenAICompatibleAdapter, AnthropicAdapter, GeminiAdapter } from './llm-adapter';
\ No newline at end of file
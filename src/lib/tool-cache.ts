@@ -0,0 +1,92 @@
+/**
+ * Tool Result Cache
+ * Time-limited cache of successful tool results, keyed by server, tool and
+ * normalized arguments
+ */
+
+import type { ToolCallResult } from './types';
+
+interface CacheEntry {
+  toolName: string;
+  result: ToolCallResult;
+  expiresAt: number;
+}
+
+export class ToolResultCache {
+  // Keyed by server name, then by cacheKey()
+  private entries = new Map<string, Map<string, CacheEntry>>();
+
+  get(serverName: string, key: string): ToolCallResult | undefined {
+    const serverEntries = this.entries.get(serverName);
+    const entry = serverEntries?.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      serverEntries!.delete(key);
+      return undefined;
+    }
+
+    return entry.result;
+  }
+
+  set(serverName: string, toolName: string, key: string, result: ToolCallResult, ttl: number): void {
+    let serverEntries = this.entries.get(serverName);
+    if (!serverEntries) {
+      serverEntries = new Map();
+      this.entries.set(serverName, serverEntries);
+    }
+
+    serverEntries.set(key, { toolName, result, expiresAt: Date.now() + ttl });
+  }
+
+  /**
+   * Drop cached results for a server, optionally only those of the given tools
+   */
+  invalidate(serverName: string, toolNames?: string[]): void {
+    const serverEntries = this.entries.get(serverName);
+    if (!serverEntries) {
+      return;
+    }
+
+    if (!toolNames) {
+      this.entries.delete(serverName);
+      return;
+    }
+
+    for (const [key, entry] of serverEntries) {
+      if (toolNames.includes(entry.toolName)) {
+        serverEntries.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache key for a call; object keys are sorted so argument order doesn't matter.
+ * Forwarded headers are part of the key since they can change what a tool returns
+ */
+export function cacheKey(toolName: string, args: Record<string, unknown>, headers?: Record<string, string>): string {
+  return JSON.stringify([toolName, normalize(args), normalize(headers ?? {})]);
+}
+
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, normalize((value as Record<string, unknown>)[key])])
+    );
+  }
+
+  return value;
+}
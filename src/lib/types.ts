@@ -8,13 +8,192 @@ import type React from 'react';
 // MCP Types
 // ============================================================================
 
+export type MCPTransportType = 'stdio' | 'sse' | 'http' | 'memory'; // memory: in-process tools from registerTools()
+
 export interface MCPServerConfig {
   name: string;
-  command: string;
+  command?: string; // For stdio transport
   args?: string[];
   env?: Record<string, string>;
-  transport: 'stdio' | 'sse' | 'http';
+  transport: MCPTransportType;
   url?: string; // For HTTP/SSE transports
+  headers?: Record<string, string>; // Extra request headers for HTTP/SSE transports
+  timeout?: number; // Connect timeout in milliseconds
+  reconnect?: MCPReconnectPolicy;
+  healthCheckInterval?: number; // Ping interval in milliseconds, 0 disables
+  toolNaming?: MCPToolNaming;
+  sampling?: MCPSamplingConfig;
+  toolTimeout?: number; // Default tool call timeout in milliseconds, reset by progress notifications
+  toolTimeouts?: Record<string, number>; // Per-tool overrides, keyed by the server's tool name
+  approval?: MCPApprovalPolicy;
+  cache?: boolean | MCPCachePolicy; // Cache results of read-only tools; off by default
+  limits?: MCPCallLimits;
+  logLevel?: MCPLogLevel; // Minimum level the server should send, set with logging/setLevel on connect
+  auth?: MCPAuthConfig;
+  oauth?: boolean | MCPOAuthConfig; // Authorize HTTP/SSE servers with OAuth 2.1 when they answer 401
+  forwardHeaders?: string[]; // Component-supplied headers passed on to this server, matched case-insensitively
+  enabled?: boolean; // false keeps the server in the config without starting it
+  lazy?: boolean; // Start the server on its first tool call rather than at startup
+  idleTimeout?: number; // Milliseconds a lazy server may go without calls before it is stopped
+}
+
+// Static credentials sent with every request. HTTP/SSE servers receive them as
+// request headers; stdio servers receive them in each tool call's _meta.headers
+export interface MCPAuthConfig {
+  bearerToken?: string; // Sent as "Authorization: Bearer <token>"
+  headers?: Record<string, string>; // Other credential headers, e.g. X-API-Key
+}
+
+// OAuth 2.1 client settings; without a clientId the client registers itself dynamically
+export interface MCPOAuthConfig {
+  clientId?: string;
+  clientSecret?: string;
+  scope?: string;
+}
+
+// Which tool calls from the chat loop wait for the user's approval
+export type MCPApprovalMode = 'always' | 'destructive' | 'never';
+
+export interface MCPApprovalPolicy {
+  mode?: MCPApprovalMode; // Default 'destructive': tools not annotated as read-only or non-destructive
+  tools?: Record<string, boolean>; // Per-tool overrides, keyed by the server's tool name
+}
+
+// Which tool results are cached, and for how long. Once enabled, tools annotated with
+// readOnlyHint are cached; a successful call to any other tool invalidates the server's
+// cached results, or only those of the tools listed for it in `invalidates`
+export interface MCPCachePolicy {
+  ttl?: number; // Default time to live in milliseconds, default 60000
+  tools?: Record<string, number | boolean>; // Per-tool overrides: a TTL, true for the default TTL, false to never cache
+  invalidates?: Record<string, string[]>; // Mutating tool -> cached tools it invalidates, by the server's tool names
+}
+
+// Limits on tool calls to one server; calls over a limit wait in a queue.
+// The tool timeout starts once a call leaves the queue
+export interface MCPCallLimits {
+  maxConcurrency?: number; // Calls in flight at once, unlimited if unset
+  rateLimit?: {
+    requests: number; // Calls started per interval
+    interval: number; // Interval in milliseconds
+  };
+}
+
+// A tool call from the chat loop waiting for the user's approval
+export interface ToolApprovalRequest {
+  serverName: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  annotations?: MCPToolAnnotations;
+}
+
+export interface ToolApprovalResponse {
+  approved: boolean;
+}
+
+// Controls how a server may use the host LLM through sampling/createMessage
+export interface MCPSamplingConfig {
+  enabled?: boolean; // Default true
+  requireApproval?: boolean; // Ask the user in the UI before each request, default false
+  tokenBudget?: number; // Total tokens the server may consume; unlimited if unset
+}
+
+// A sampling request from a server, translated into host terms
+export interface SamplingRequest {
+  serverName: string;
+  messages: Message[];
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature?: number;
+  requireApproval: boolean;
+}
+
+export interface SamplingResponse {
+  content: string;
+  model: string;
+  stopReason: 'endTurn' | 'maxTokens' | 'stopSequence';
+  tokensUsed?: number;
+}
+
+// A field in an elicitation form; MCP limits these to flat primitive types
+export interface ElicitationField {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  title?: string;
+  description?: string;
+  enum?: string[];
+  enumNames?: string[];
+  format?: 'email' | 'uri' | 'date' | 'date-time';
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  default?: string | number | boolean;
+}
+
+// A server asking the user for more information mid-call
+export interface ElicitationRequest {
+  serverName: string;
+  message: string;
+  requestedSchema: {
+    type: 'object';
+    properties: Record<string, ElicitationField>;
+    required?: string[];
+  };
+}
+
+export interface ElicitationResponse {
+  action: 'accept' | 'decline' | 'cancel';
+  content?: Record<string, string | number | boolean>;
+}
+
+// Separator between server prefix and tool name, e.g. weather__get_forecast
+export const TOOL_NAME_SEPARATOR = '__';
+
+/**
+ * How a server's tools are named for the LLM.
+ * - prefix: expose every tool as `<prefix>__<tool>` (prefix defaults to the server name)
+ * - alias: rename tools listed in `aliases`, keep the rest as-is
+ * - error: keep names as-is (default)
+ * A name that collides with another server's tool always fails the connection.
+ */
+export interface MCPToolNaming {
+  strategy: 'prefix' | 'alias' | 'error';
+  prefix?: string;
+  aliases?: Record<string, string>; // Server tool name -> exposed name
+}
+
+export interface MCPReconnectPolicy {
+  maxAttempts?: number;
+  initialDelay?: number; // Milliseconds before the first restart, doubled per attempt
+  maxDelay?: number;
+}
+
+// 'idle' is a lazy server whose tools are listed but whose process isn't running
+export type MCPServerState = 'connecting' | 'ready' | 'degraded' | 'unauthorized' | 'failed' | 'idle';
+
+export interface MCPServerStatus {
+  name: string;
+  state: MCPServerState;
+  lastError?: string;
+  reconnectAttempts: number;
+  authorizationUrl?: string; // Consent page to open while the server is unauthorized
+  queue?: MCPCallQueueStatus; // Present for servers with call limits
+  updatedAt: string;
+}
+
+export interface MCPCallQueueStatus {
+  active: number; // Calls in flight
+  queued: number; // Calls waiting for a slot
+  longestWait: number; // Milliseconds the oldest queued call has waited
+  averageWait: number; // Mean milliseconds recent calls waited before starting
+}
+
+// Behavioral hints a server declares for a tool; clients must not rely on them for security
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
 }
 
 export interface MCPTool {
@@ -25,6 +204,13 @@ export interface MCPTool {
     properties?: Record<string, any>;
     required?: string[];
   };
+  annotations?: MCPToolAnnotations;
+  // JSON schema the tool's structuredContent must match, if the server declares one
+  outputSchema?: {
+    type: 'object';
+    properties?: Record<string, any>;
+    required?: string[];
+  };
   _meta?: {
     // Component rendering metadata
     componentId?: string;
@@ -48,6 +234,24 @@ export interface MCPResource {
   };
 }
 
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+// A prompt rendered with arguments, ready to insert into a conversation
+export interface RenderedPrompt {
+  description?: string;
+  messages: Message[];
+}
+
 export interface ToolCallResult {
   content: Array<{
     type: 'text' | 'image' | 'resource';
@@ -60,11 +264,47 @@ export interface ToolCallResult {
   isError?: boolean;
 }
 
+// Log severities, from least to most severe
+export type MCPLogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+// A log line from a server: a logging notification, or a line a stdio server wrote to stderr
+export interface MCPLogEntry {
+  id: number; // Increases across all servers; use with `since` to tail
+  serverName: string;
+  level: MCPLogLevel;
+  source: 'notification' | 'stderr';
+  logger?: string;
+  message: string;
+  data?: unknown; // The notification's data when it isn't a plain string
+  timestamp: string;
+}
+
+export interface MCPLogQuery {
+  serverName?: string;
+  level?: MCPLogLevel; // Minimum level
+  search?: string; // Case-insensitive substring of the message
+  since?: number; // Only entries with a greater id
+  limit?: number; // Most recent entries to return
+}
+
+// Progress reported by a server during a long-running tool call
+export interface ToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface ToolCallOptions {
+  signal?: AbortSignal; // Aborting sends notifications/cancelled to the server
+  onProgress?: (progress: ToolProgress) => void;
+  timeout?: number; // Overrides the configured timeout
+}
+
 // ============================================================================
 // LLM Types
 // ============================================================================
 
-export type LLMProvider = 'openai' | 'anthropic' | 'groq' | 'ollama' | 'lmstudio' | 'custom';
+export type LLMProvider = 'openai' | 'anthropic' | 'gemini' | 'groq' | 'ollama' | 'lmstudio' | 'custom';
 
 export interface LLMConfig {
   provider: LLMProvider;
@@ -81,6 +321,7 @@ export interface Message {
   name?: string;
   tool_calls?: ToolCall[];
   tool_call_id?: string;
+  is_error?: boolean; // Tool messages: the call failed, for providers that flag failed results
 }
 
 export interface ToolCall {
@@ -90,6 +331,15 @@ export interface ToolCall {
     name: string;
     arguments: string;
   };
+  provider_metadata?: ToolCallProviderMetadata; // Sent back unchanged when the call is replayed
+}
+
+// Provider data a tool call must carry back to the provider that made it
+export interface ToolCallProviderMetadata {
+  gemini?: {
+    id?: string; // The functionCall id, when Gemini assigned one
+    thoughtSignature?: string; // Thinking models need it back to continue their reasoning
+  };
 }
 
 export interface ChatCompletionRequest {
@@ -118,9 +368,27 @@ export interface ChatCompletionChunk {
   id: string;
   choices: Array<{
     index: number;
-    delta: Partial<Message>;
+    delta: Partial<Omit<Message, 'tool_calls'>> & { tool_calls?: ToolCallDelta[] };
     finish_reason: string | null;
   }>;
+  usage?: { // Sent with the final chunk
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+// Part of a streamed tool call: the first delta of a call has its id and name, later
+// ones add to its arguments. Deltas of the same call share an index.
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+  provider_metadata?: ToolCallProviderMetadata; // Sent with the first delta
 }
 
 // ============================================================================
@@ -173,7 +441,12 @@ export interface ComponentContext<
   readonly: boolean;
   
   // Methods accessible via context
-  callTool(name: string, args: Record<string, unknown>, headers?: Record<string, string>): Promise<ToolCallResult>;
+  callTool(
+    name: string,
+    args: Record<string, unknown>,
+    headers?: Record<string, string>,
+    options?: Pick<ToolCallOptions, 'signal' | 'onProgress'>
+  ): Promise<ToolCallResult>;
   sendMessage(prompt: string): Promise<void>;
   setComponentState(state: ComponentState): Promise<void>;
   requestDisplayMode(mode: DisplayMode): Promise<{ mode: DisplayMode }>;
@@ -189,9 +462,27 @@ export type WSMessageType =
   | 'chat_message'
   | 'tool_call'
   | 'tool_result'
+  | 'tool_progress'
+  | 'tool_cancel'
   | 'set_widget_state'
   | 'request_display_mode'
   | 'follow_up_message'
+  | 'server_status'
+  | 'tools_changed'
+  | 'resources_changed'
+  | 'prompts_changed'
+  | 'sampling_request'
+  | 'sampling_response'
+  | 'elicitation_request'
+  | 'elicitation_response'
+  | 'tool_approval_request'
+  | 'tool_approval_response'
+  | 'client_request_resolved'
+  | 'subscribe_logs'
+  | 'unsubscribe_logs'
+  | 'server_log'
+  | 'config_reloaded'
+  | 'config_error'
   | 'error';
 
 export interface WSMessage<T = any> {
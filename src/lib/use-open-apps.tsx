@@ -6,7 +6,7 @@
 
 import { useContext, useSyncExternalStore, useCallback, useState, useEffect } from 'react';
 import { Context } from './component-context';
-import type { Theme, DisplayMode, ToolCallResult } from './types';
+import type { Theme, DisplayMode, ToolCallOptions, ToolCallResult } from './types';
 
 /**
  * Main hook to access the OpenApps context
@@ -160,8 +160,13 @@ export function useCallTool() {
   const { callTool } = useOpenApps();
   
   return useCallback(
-    async (name: string, args: Record<string, unknown>, headers?: Record<string, string>): Promise<ToolCallResult> => {
-      return await callTool(name, args, headers);
+    async (
+      name: string,
+      args: Record<string, unknown>,
+      headers?: Record<string, string>,
+      options?: Pick<ToolCallOptions, 'signal' | 'onProgress'>
+    ): Promise<ToolCallResult> => {
+      return await callTool(name, args, headers, options);
     },
     [callTool]
   );
@@ -1,5 +1,5 @@
 import { serve } from "bun";
-import { PORT, initializeMCPServers } from "./server/init";
+import { PORT, initializeMCPServers, watchMCPServers } from "./server/init";
 import { routes } from "./server/routes";
 import { websocket } from "./server/websocket";
 
@@ -13,8 +13,11 @@ const server = serve({
   },
 });
 
-// Start server initialization
-initializeMCPServers().catch(console.error);
+// Start server initialization, then apply mcp.config.json edits as they happen.
+// Watching starts even if the first load failed, so fixing the file is enough
+initializeMCPServers()
+  .catch(console.error)
+  .then(() => watchMCPServers());
 
 console.log(`🚀 Open Apps SDK Server running at ${server.url}`);
 console.log(`📡 WebSocket endpoint: ws://localhost:${PORT}/ws`);
@@ -1,21 +1,36 @@
 import { getMCPClient } from "../lib/mcp-client";
-import { createLLMAdapter } from "../lib/llm-adapter";
-import type { Message, LLMConfig } from "../lib/types";
-import { loadMCPConfig } from "../lib/mcp-config";
+import { createLLMAdapter, GEMINI_BASE_URL } from "../lib/llm-adapter";
+import type {
+  Message,
+  LLMConfig,
+  MCPServerConfig,
+  MCPServerStatus,
+  WSMessageType,
+  ElicitationResponse,
+  ToolApprovalRequest,
+  ToolApprovalResponse,
+} from "../lib/types";
+import { existsSync } from "fs";
+import { redactSecrets } from "../lib/config-env";
+import { loadMCPConfig, diffMCPConfigs, watchMCPConfig, mcpConfigLayers, type MCPConfigDiff } from "../lib/mcp-config";
 
 // Load environment variables
 export const PORT = process.env.PORT || 3000;
+const LLM_PROVIDER: LLMConfig['provider'] = (process.env.LLM_PROVIDER as any) || 'lmstudio';
 export const LLM_CONFIG: LLMConfig = {
-  provider: (process.env.LLM_PROVIDER as any) || 'lmstudio',
+  provider: LLM_PROVIDER,
   apiKey: process.env.LLM_API_KEY || undefined, // LM Studio doesn't need API key
-  baseUrl: process.env.LLM_BASE_URL || 'http://127.0.0.1:1234/v1',
+  baseUrl: process.env.LLM_BASE_URL || (LLM_PROVIDER === 'gemini' ? GEMINI_BASE_URL : 'http://127.0.0.1:1234/v1'),
   model: process.env.LLM_MODEL || 'qwen/qwen3-14b',
   maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '4096'),
   temperature: parseFloat(process.env.LLM_TEMPERATURE || '0.7'),
 };
 
+export const OAUTH_REDIRECT_URL = process.env.OAUTH_REDIRECT_URL || `http://localhost:${PORT}/oauth/callback`;
+
 export const llmAdapter = createLLMAdapter(LLM_CONFIG);
 export const mcpClient = getMCPClient();
+mcpClient.setOAuthRedirectUrl(OAUTH_REDIRECT_URL);
 
 // Store active conversations
 export const conversations = new Map<string, Message[]>();
@@ -35,15 +50,183 @@ export function broadcastToClients(message: any) {
   }
 }
 
+// In-flight tool calls that clients can cancel, keyed by call id
+export const activeToolCalls = new Map<string, AbortController>();
+
+// Requests sent to the browser UI that wait for a user decision
+const CLIENT_REQUEST_TIMEOUT = 120000;
+const pendingClientRequests = new Map<string, {
+  resolve: (response: any) => void;
+  timer: ReturnType<typeof setTimeout>;
+}>();
+
+// Ask connected clients for a decision; resolves null if nobody answers in time
+export function requestFromClients<T>(
+  type: WSMessageType,
+  payload: any,
+  timeout = CLIENT_REQUEST_TIMEOUT
+): Promise<T | null> {
+  if (wsClients.size === 0) {
+    return Promise.resolve(null);
+  }
+
+  const id = `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolveClientRequest(id, null), timeout);
+    pendingClientRequests.set(id, { resolve, timer });
+    broadcastToClients({ type, id, payload });
+  });
+}
+
+// Settle a pending client request; the first answer wins and other clients are told to dismiss it
+export function resolveClientRequest(id: string, response: unknown): boolean {
+  const pending = pendingClientRequests.get(id);
+  if (!pending) {
+    return false;
+  }
+
+  clearTimeout(pending.timer);
+  pendingClientRequests.delete(id);
+  pending.resolve(response);
+
+  broadcastToClients({
+    type: 'client_request_resolved',
+    payload: { id },
+  });
+  return true;
+}
+
+// Answer MCP sampling requests with the host LLM
+mcpClient.setSamplingHandler(async (request) => {
+  if (request.requireApproval) {
+    const decision = await requestFromClients<{ approved: boolean }>('sampling_request', {
+      serverName: request.serverName,
+      systemPrompt: request.systemPrompt,
+      messages: request.messages,
+      maxTokens: request.maxTokens,
+    });
+
+    if (!decision?.approved) {
+      throw new Error(`Sampling request from ${request.serverName} was not approved`);
+    }
+  }
+
+  const messages: Message[] = request.systemPrompt
+    ? [{ role: 'system', content: request.systemPrompt }, ...request.messages]
+    : request.messages;
+
+  const response = await llmAdapter.chat({
+    messages,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+  });
+
+  const choice = response.choices?.[0];
+  if (!choice) {
+    throw new Error('Invalid response from LLM - no choices returned');
+  }
+
+  return {
+    content: choice.message.content || '',
+    model: LLM_CONFIG.model,
+    stopReason: choice.finish_reason === 'length' ? 'maxTokens' : 'endTurn',
+    tokensUsed: response.usage?.total_tokens,
+  };
+});
+
+// Forward MCP elicitation requests to the chat UI as forms
+const ELICITATION_TIMEOUT = 300000;
+
+mcpClient.setElicitationHandler(async (request) => {
+  const response = await requestFromClients<ElicitationResponse>('elicitation_request', {
+    serverName: request.serverName,
+    message: request.message,
+    requestedSchema: request.requestedSchema,
+  }, ELICITATION_TIMEOUT);
+
+  // Nobody answered: treat it as the user dismissing the form
+  return response ?? { action: 'cancel' };
+});
+
+// Ask the UI to approve a tool call from the chat loop; unanswered requests count as denied
+const TOOL_APPROVAL_TIMEOUT = 300000;
+
+export async function requestToolApproval(request: ToolApprovalRequest): Promise<boolean> {
+  const response = await requestFromClients<ToolApprovalResponse>(
+    'tool_approval_request',
+    request,
+    TOOL_APPROVAL_TIMEOUT
+  );
+  return response?.approved === true;
+}
+
+// Relay server supervision changes (restarts, failures) to the UI
+mcpClient.on('status', (status: MCPServerStatus) => {
+  broadcastToClients({
+    type: 'server_status',
+    payload: status,
+  });
+});
+
+// Push the current tool list whenever a server's tools change, so the UI and
+// the next /api/chat turn see the same tools
+mcpClient.on('tools_changed', async ({ serverName }: { serverName: string }) => {
+  broadcastToClients({
+    type: 'tools_changed',
+    payload: { serverName, tools: await mcpClient.listTools() },
+  });
+});
+
+mcpClient.on('resources_changed', ({ serverName }: { serverName: string }) => {
+  broadcastToClients({
+    type: 'resources_changed',
+    payload: { serverName },
+  });
+});
+
+mcpClient.on('prompts_changed', async ({ serverName }: { serverName: string }) => {
+  broadcastToClients({
+    type: 'prompts_changed',
+    payload: { serverName, prompts: await mcpClient.listPrompts() },
+  });
+});
+
+const STATUS_ICONS: Record<MCPServerStatus['state'], string> = {
+  connecting: '⏳',
+  ready: '✅',
+  degraded: '⚠️ ',
+  unauthorized: '🔒',
+  failed: '❌',
+  idle: '💤',
+};
+
+// Server configs from the last mcp.config.json that loaded, diffed against on reload
+let loadedServers: MCPServerConfig[] = [];
+
+// Reloads run one at a time, in the order the file changed
+let reloadQueue: Promise<unknown> = Promise.resolve();
+
+// Servers with "enabled": false stay in the config but are never started
+function enabledServers(servers: MCPServerConfig[]): MCPServerConfig[] {
+  for (const server of servers) {
+    if (server.enabled === false) {
+      console.log(`⏸️  ${server.name}: disabled`);
+    }
+  }
+  return servers.filter(server => server.enabled !== false);
+}
+
 // Initialize MCP servers from mcp.config.json
-export async function initializeMCPServers() {
+export async function initializeMCPServers(): Promise<MCPServerStatus[]> {
   console.log('🔧 Loading MCP server configurations...');
 
-  const servers = await loadMCPConfig();
+  const servers = enabledServers(await loadMCPConfig());
+  loadedServers = servers;
 
   if (servers.length === 0) {
     console.log('ℹ️  No MCP servers configured. Add servers to mcp.config.json to enable tools.');
-    return;
+    return [];
   }
 
   for (const serverConfig of servers) {
@@ -52,12 +235,104 @@ export async function initializeMCPServers() {
       await mcpClient.connect(serverConfig);
       console.log(`✅ Connected to ${serverConfig.name}`);
     } catch (error) {
-      console.error(`❌ Failed to connect to ${serverConfig.name}:`, error);
+      console.error(`❌ Failed to connect to ${serverConfig.name}: ${errorMessage(error)}`);
+    }
+  }
+
+  const statuses = mcpClient.getServerStatuses();
+  for (const status of statuses) {
+    const detail = status.lastError ? ` - ${status.lastError}` : '';
+    console.log(`${STATUS_ICONS[status.state]} ${status.name}: ${status.state}${detail}`);
+    if (status.authorizationUrl) {
+      console.log(`   Authorize in the chat UI or open: ${status.authorizationUrl}`);
     }
   }
 
   const tools = await mcpClient.listTools();
   console.log(`🛠️  Total tools available: ${tools.length}`);
-    console.log(`🤖 LLM Provider: ${LLM_CONFIG.provider} (${LLM_CONFIG.model})`);
-    console.log(`🔧 MCP Servers: ${mcpClient.getConnectedServers().length} connected`);
-}
\ No newline at end of file
+  console.log(`🤖 LLM Provider: ${LLM_CONFIG.provider} (${LLM_CONFIG.model})`);
+  const idle = statuses.filter(status => status.state === 'idle').length;
+  console.log(`🔧 MCP Servers: ${mcpClient.getConnectedServers().length}/${servers.length} connected${idle > 0 ? `, ${idle} idle until first use` : ''}`);
+
+  return statuses;
+}
+
+/**
+ * Reload mcp.config.json and apply the difference to the running servers: new servers
+ * are connected, removed ones disconnected and changed ones restarted. A config that
+ * fails to load leaves the running servers alone, and the error goes to the UI.
+ */
+export function reloadMCPServers(): Promise<MCPConfigDiff | null> {
+  const reload = reloadQueue.then(applyMCPConfig);
+  reloadQueue = reload.catch(() => {});
+  return reload;
+}
+
+// Watch every mcp.config.json layer and reload on every change; returns a function that stops watching
+export function watchMCPServers(): () => void {
+  return watchMCPConfig(() => {
+    reloadMCPServers().catch(error => console.error(`❌ Failed to apply mcp.config.json: ${errorMessage(error)}`));
+  });
+}
+
+async function applyMCPConfig(): Promise<MCPConfigDiff | null> {
+  let servers: MCPServerConfig[];
+  try {
+    // A missing file is more likely an editor mid-save than a request to drop every server
+    if (!mcpConfigLayers().some(layer => existsSync(layer.path))) {
+      throw new Error('mcp.config.json was removed');
+    }
+    // Disabling a server stops it like removing it would
+    servers = enabledServers(await loadMCPConfig());
+  } catch (error) {
+    console.error(`❌ Keeping the previous MCP configuration: ${errorMessage(error)}`);
+    broadcastToClients({
+      type: 'config_error',
+      payload: { error: errorMessage(error) },
+    });
+    return null;
+  }
+
+  const diff = diffMCPConfigs(loadedServers, servers);
+  loadedServers = servers;
+
+  for (const name of diff.removed) {
+    console.log(`➖ Removing ${name}`);
+    await mcpClient.disconnect(name);
+  }
+
+  for (const config of diff.changed) {
+    console.log(`🔄 Restarting ${config.name} with its new configuration`);
+    await mcpClient.disconnect(config.name);
+    await connectServer(config);
+  }
+
+  for (const config of diff.added) {
+    console.log(`➕ Adding ${config.name}`);
+    await connectServer(config);
+  }
+
+  broadcastToClients({
+    type: 'config_reloaded',
+    payload: {
+      added: diff.added.map(config => config.name),
+      removed: diff.removed,
+      changed: diff.changed.map(config => config.name),
+    },
+  });
+  return diff;
+}
+
+// Failures show up in the server's status, so one bad server doesn't stop the others
+async function connectServer(config: MCPServerConfig): Promise<void> {
+  try {
+    await mcpClient.connect(config);
+  } catch (error) {
+    console.error(`❌ Failed to connect to ${config.name}: ${errorMessage(error)}`);
+  }
+}
+
+// Config values that are secrets never reach the logs or the UI
+function errorMessage(error: unknown): string {
+  return redactSecrets(error instanceof Error ? error.message : String(error));
+}
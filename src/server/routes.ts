@@ -1,6 +1,57 @@
 import index from "../index.html";
-import { llmAdapter, mcpClient, wsClients, broadcastToClients } from "./init";
+import {
+  llmAdapter,
+  mcpClient,
+  wsClients,
+  broadcastToClients,
+  activeToolCalls,
+  requestToolApproval,
+} from "./init";
 import * as db from "../lib/database";
+import { validationErrorResult } from "../lib/schema-validation";
+import { isLogLevel } from "../lib/server-logs";
+import { redactSecrets } from "../lib/config-env";
+import type { ToolCallResult } from "../lib/types";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+// Tool-calling rounds per chat request before the last LLM reply is returned as-is
+const MAX_TOOL_ROUNDS = 5;
+
+// Log entries returned by the logs endpoint unless ?limit= says otherwise
+const DEFAULT_LOG_LIMIT = 200;
+
+/**
+ * Parse the JSON arguments string from an LLM tool call
+ * Malformed or non-object arguments become an error message the LLM can act on
+ */
+function parseToolArguments(
+  raw: string | undefined
+): { args: Record<string, unknown>; error?: undefined } | { args?: undefined; error: string } {
+  if (!raw || !raw.trim()) {
+    return { args: {} };
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return { error: 'arguments must be a JSON object' };
+    }
+    return { args: parsed };
+  } catch (error: any) {
+    return { error: `arguments are not valid JSON (${error.message})` };
+  }
+}
+
+/**
+ * Minimal page shown in the browser window that completed an OAuth flow
+ */
+function oauthResultPage(message: string, status = 200): Response {
+  const escaped = message.replace(/[&<>"]/g, char => `&#${char.charCodeAt(0)};`);
+  return new Response(
+    `<!doctype html><html><head><title>Open Apps SDK</title></head><body><p>${escaped}</p></body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+}
 
 export const routes = {
   "/ws": {
@@ -26,6 +77,104 @@ export const routes = {
     },
   },
 
+  // List available prompts
+  "/api/prompts": {
+    async GET() {
+      const prompts = await mcpClient.listPrompts();
+      return Response.json({ prompts });
+    },
+  },
+
+  // Render a prompt with arguments
+  "/api/prompts/:name": {
+    async POST(req: any) {
+      const promptName = req.params.name;
+      const body = await req.json().catch(() => ({}));
+
+      try {
+        const prompt = await mcpClient.getPrompt(promptName, body.arguments || {});
+        return Response.json({ prompt });
+      } catch (error: any) {
+        // Missing or invalid arguments are the caller's to fix
+        const invalidParams = error instanceof McpError && error.code === ErrorCode.InvalidParams;
+        return Response.json(
+          { error: redactSecrets(error.message) },
+          { status: invalidParams ? 400 : 500 }
+        );
+      }
+    },
+  },
+
+  // Supervision status of configured MCP servers
+  "/api/servers": {
+    async GET() {
+      return Response.json({ servers: mcpClient.getServerStatuses() });
+    },
+  },
+
+  // Recent logs of a server; poll with ?since=<last id> to tail them
+  "/api/servers/:name/logs": {
+    async GET(req: any) {
+      const params = new URL(req.url).searchParams;
+      const level = params.get('level');
+      if (level && !isLogLevel(level)) {
+        return Response.json({ error: `Unknown log level: ${level}` }, { status: 400 });
+      }
+
+      const since = params.get('since');
+      const logs = mcpClient.getLogs({
+        serverName: req.params.name,
+        level: isLogLevel(level) ? level : undefined,
+        search: params.get('search') || undefined,
+        since: since ? Number(since) : undefined,
+        limit: Number(params.get('limit')) || DEFAULT_LOG_LIMIT,
+      });
+      return Response.json({ logs });
+    },
+  },
+
+  // Set the minimum level a server sends log messages at
+  "/api/servers/:name/log-level": {
+    async PUT(req: any) {
+      const body = await req.json().catch(() => ({}));
+      if (!isLogLevel(body.level)) {
+        return Response.json({ error: `Unknown log level: ${body.level}` }, { status: 400 });
+      }
+
+      try {
+        await mcpClient.setLogLevel(req.params.name, body.level);
+        return Response.json({ level: body.level });
+      } catch (error: any) {
+        return Response.json(
+          { error: redactSecrets(error.message) },
+          { status: 500 }
+        );
+      }
+    },
+  },
+
+  // OAuth redirect target for remote MCP servers
+  "/oauth/callback": {
+    async GET(req: any) {
+      const params = new URL(req.url).searchParams;
+      const code = params.get('code');
+      const state = params.get('state');
+
+      if (params.get('error') || !code || !state) {
+        const reason = params.get('error_description') || params.get('error') || 'Missing code or state';
+        return oauthResultPage(`Authorization failed: ${reason}`, 400);
+      }
+
+      try {
+        const serverName = await mcpClient.finishAuthorization(state, code);
+        return oauthResultPage(`${serverName} is authorized. You can close this window.`);
+      } catch (error: any) {
+        console.error(`OAuth callback error: ${redactSecrets(error.message)}`);
+        return oauthResultPage(`Authorization failed: ${redactSecrets(error.message)}`, 500);
+      }
+    },
+  },
+
   // Call a specific tool
   "/api/tools/:name": {
     async POST(req: any) {
@@ -37,7 +186,7 @@ export const routes = {
         return Response.json({ result });
       } catch (error: any) {
         return Response.json(
-          { error: error.message },
+          { error: redactSecrets(error.message) },
           { status: 500 }
         );
       }
@@ -80,8 +229,8 @@ export const routes = {
         const newMessages = messages || [];
         for (const msg of newMessages) {
           conversationMessages.push(msg);
-          // Save user message to database
-          if (msg.role === 'user') {
+          // Save user messages (and assistant messages from rendered prompts) to database
+          if (msg.role === 'user' || msg.role === 'assistant') {
             db.createMessage({
               conversation_id: conversation.id,
               role: msg.role,
@@ -131,57 +280,121 @@ export const routes = {
 
         conversationMessages.push(assistantMessage);
 
-        // Handle tool calls
+        // Handle tool calls; the LLM may call tools again after seeing the results,
+        // e.g. to retry with corrected arguments after a validation error
         if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
           const toolResults: any[] = [];
-
-          for (const toolCall of assistantMessage.tool_calls) {
-            const toolName = toolCall.function.name;
-            const toolArgs = JSON.parse(toolCall.function.arguments);
-
-            // Execute tool
-            const toolResult = await mcpClient.callTool(toolName, toolArgs);
-
-            // Store tool result
-            toolResults.push({
-              toolName,
-              toolArgs,
-              result: toolResult,
-            });
-
-            // Add tool result to messages
-            conversationMessages.push({
-              role: 'tool',
-              content: JSON.stringify(toolResult),
-              tool_call_id: toolCall.id,
-            });
-
-            // Broadcast tool result to WebSocket clients
-            broadcastToClients({
-              type: 'tool_result',
-              payload: {
+          const toolCalls: any[] = [];
+          let finalMessage = assistantMessage;
+
+          for (let round = 0; finalMessage.tool_calls?.length && round < MAX_TOOL_ROUNDS; round++) {
+            toolCalls.push(...finalMessage.tool_calls);
+
+            for (const toolCall of finalMessage.tool_calls) {
+              const toolName = toolCall.function.name;
+              const { args: toolArgs, error: argumentsError } = parseToolArguments(toolCall.function.arguments);
+
+              let toolResult: ToolCallResult | undefined;
+              if (toolArgs === undefined) {
+                toolResult = validationErrorResult(`Invalid arguments for tool ${toolName}`, [argumentsError]);
+              } else if (mcpClient.requiresApproval(toolName)) {
+                // Pause the loop until the user approves or denies the call in the UI
+                const approved = await requestToolApproval({
+                  serverName: mcpClient.resolveTool(toolName)?.serverName ?? '',
+                  toolName,
+                  args: toolArgs,
+                  annotations: tools.find(tool => tool.name === toolName)?.annotations,
+                });
+                if (!approved) {
+                  toolResult = {
+                    content: [{ type: 'text', text: `The user denied the ${toolName} tool call.` }],
+                    isError: true,
+                  };
+                }
+              }
+
+              if (!toolResult) {
+                // Execute tool; the UI can cancel it by call id while it runs
+                const controller = new AbortController();
+                activeToolCalls.set(toolCall.id, controller);
+                req.signal?.addEventListener('abort', () => controller.abort());
+                broadcastToClients({
+                  type: 'tool_progress',
+                  payload: { callId: toolCall.id, toolName },
+                });
+
+                try {
+                  toolResult = await mcpClient.callTool(toolName, toolArgs ?? {}, undefined, {
+                    signal: controller.signal,
+                    onProgress: (progress) => {
+                      broadcastToClients({
+                        type: 'tool_progress',
+                        payload: { callId: toolCall.id, toolName, progress },
+                      });
+                    },
+                  });
+                } catch (error) {
+                  // Unknown tools and failed calls go back to the LLM as errors it can recover from
+                  const message = controller.signal.aborted
+                    ? `The user cancelled the ${toolName} tool call.`
+                    : `Tool ${toolName} failed: ${redactSecrets(error instanceof Error ? error.message : String(error))}`;
+                  if (!controller.signal.aborted) {
+                    console.error(message);
+                  }
+                  toolResult = {
+                    content: [{ type: 'text', text: message }],
+                    isError: true,
+                  };
+                } finally {
+                  activeToolCalls.delete(toolCall.id);
+                }
+              }
+
+              // Store tool result
+              toolResults.push({
                 toolName,
+                originalToolName: mcpClient.resolveTool(toolName)?.toolName, // Lets aliased tools find their components
                 toolArgs,
                 result: toolResult,
-              },
+              });
+
+              // Add tool result to messages
+              conversationMessages.push({
+                role: 'tool',
+                content: JSON.stringify(toolResult),
+                tool_call_id: toolCall.id,
+                ...(toolResult.isError && { is_error: true }),
+              });
+
+              // Broadcast tool result to WebSocket clients
+              broadcastToClients({
+                type: 'tool_result',
+                payload: {
+                  toolName,
+                  toolArgs,
+                  result: toolResult,
+                },
+              });
+            }
+
+            // Call LLM again with tool results
+            const finalResponse = await llmAdapter.chat({
+              messages: conversationMessages,
+              tools,
             });
-          }
 
-          // Call LLM again with tool results
-          const finalResponse = await llmAdapter.chat({
-            messages: conversationMessages,
-            tools,
-          });
+            const nextMessage = finalResponse.choices[0]?.message;
+            if (!nextMessage) {
+              throw new Error('No final response from LLM');
+            }
 
-          const finalMessage = finalResponse.choices[0]?.message;
-          if (!finalMessage) {
-            throw new Error('No final response from LLM');
+            conversationMessages.push(nextMessage);
+            finalMessage = nextMessage;
           }
 
-          conversationMessages.push(finalMessage);
-
-          // Save assistant message with component metadata
-          const resultMeta = toolResults[0].result?._meta as Record<string, unknown> | undefined;
+          // Save assistant message with component metadata from the last successful tool call
+          const renderedResult = [...toolResults].reverse().find(r => !r.result?.isError) || toolResults[0];
+          const resultMeta = renderedResult.result?._meta as Record<string, unknown> | undefined;
           const metaComponentName = typeof resultMeta?.componentId === 'string'
             ? (resultMeta.componentId as string)
             : typeof resultMeta?.component_id === 'string'
@@ -193,17 +406,19 @@ export const routes = {
             role: 'assistant',
             content: finalMessage.content || '',
             component_name: componentName || undefined,
-            component_props: toolResults[0].result?.structuredContent,
-            tool_name: toolResults[0].toolName,
-            tool_args: toolResults[0].toolArgs,
-            tool_result: toolResults[0].result,
+            component_props: renderedResult.result?.structuredContent,
+            tool_name: renderedResult.toolName,
+            tool_args: renderedResult.toolArgs,
+            tool_result: renderedResult.result,
           });
 
           return Response.json({
             conversationId: conversation.id,
             message: finalMessage,
-            toolCalls: assistantMessage.tool_calls,
+            toolCalls,
             toolResults,
+            // The result saved with the message, so the client renders the same one
+            renderedResultIndex: toolResults.indexOf(renderedResult),
           });
         }
 
@@ -219,9 +434,9 @@ export const routes = {
           message: assistantMessage,
         });
       } catch (error: any) {
-        console.error('Chat error:', error);
+        console.error(`Chat error: ${redactSecrets(error.message)}`);
         return Response.json(
-          { error: error.message },
+          { error: redactSecrets(error.message) },
           { status: 500 }
         );
       }
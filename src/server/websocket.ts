@@ -1,13 +1,47 @@
-import { wsClients, broadcastToClients, mcpClient } from "./init";
+import { wsClients, broadcastToClients, mcpClient, resolveClientRequest, activeToolCalls } from "./init";
+import { matchesLevel, isLogLevel } from "../lib/server-logs";
+import { redactSecrets } from "../lib/config-env";
+import type { MCPLogEntry, MCPLogLevel } from "../lib/types";
+
+// Tool calls started by each socket, so they can be cancelled when it disconnects
+const socketToolCalls = new Map<any, Set<string>>();
+
+// Log subscriptions of each socket; without a serverName, logs of every server
+const logSubscriptions = new Map<any, { serverName?: string; level?: MCPLogLevel }>();
+
+// Recent entries sent when a socket subscribes, before live ones
+const LOG_BACKLOG = 100;
+
+mcpClient.on('log', (entry: MCPLogEntry) => {
+  for (const [ws, subscription] of logSubscriptions) {
+    if (subscription.serverName && subscription.serverName !== entry.serverName) continue;
+    if (!matchesLevel(entry, subscription.level)) continue;
+    ws.send(JSON.stringify({ type: 'server_log', payload: { entries: [entry] } }));
+  }
+});
 
 // Handle WebSocket messages
 export async function handleWSMessage(ws: any, message: any) {
   const { type, id, payload } = message;
 
   switch (type) {
-    case 'tool_call':
+    case 'tool_call': {
+      const controller = new AbortController();
+      activeToolCalls.set(id, controller);
+      if (!socketToolCalls.has(ws)) socketToolCalls.set(ws, new Set());
+      socketToolCalls.get(ws)!.add(id);
+
       try {
-        const result = await mcpClient.callTool(payload.name, payload.args);
+        const result = await mcpClient.callTool(payload.name, payload.args, payload.headers, {
+          signal: controller.signal,
+          onProgress: (progress) => {
+            ws.send(JSON.stringify({
+              type: 'tool_progress',
+              id,
+              payload: { callId: id, toolName: payload.name, progress },
+            }));
+          },
+        });
         ws.send(JSON.stringify({
           type: 'tool_result',
           id,
@@ -17,10 +51,18 @@ export async function handleWSMessage(ws: any, message: any) {
         ws.send(JSON.stringify({
           type: 'error',
           id,
-          payload: { error: error.message },
+          payload: { error: controller.signal.aborted ? 'Tool call cancelled' : redactSecrets(error.message) },
         }));
+      } finally {
+        activeToolCalls.delete(id);
+        socketToolCalls.get(ws)?.delete(id);
       }
       break;
+    }
+
+    case 'tool_cancel':
+      activeToolCalls.get(payload.callId)?.abort();
+      break;
 
     case 'follow_up_message':
       broadcastToClients({
@@ -50,6 +92,30 @@ export async function handleWSMessage(ws: any, message: any) {
       });
       break;
 
+    case 'subscribe_logs': {
+      const subscription = {
+        serverName: payload?.serverName,
+        level: isLogLevel(payload?.level) ? payload.level : undefined,
+      };
+      logSubscriptions.set(ws, subscription);
+      ws.send(JSON.stringify({
+        type: 'server_log',
+        id,
+        payload: { entries: mcpClient.getLogs({ ...subscription, limit: LOG_BACKLOG }) },
+      }));
+      break;
+    }
+
+    case 'unsubscribe_logs':
+      logSubscriptions.delete(ws);
+      break;
+
+    case 'sampling_response':
+    case 'elicitation_response':
+    case 'tool_approval_response':
+      resolveClientRequest(id, payload);
+      break;
+
     default:
       console.log('Unknown WebSocket message type:', type);
   }
@@ -67,6 +133,7 @@ export const websocket = {
         theme: 'light',
         locale: 'en-US',
         displayMode: 'inline',
+        servers: mcpClient.getServerStatuses(),
       },
     }));
   },
@@ -83,5 +150,12 @@ export const websocket = {
   close(ws: any) {
     console.log('WebSocket client disconnected');
     wsClients.delete(ws);
+
+    // Nobody is left to receive these results
+    for (const callId of socketToolCalls.get(ws) ?? []) {
+      activeToolCalls.get(callId)?.abort();
+    }
+    socketToolCalls.delete(ws);
+    logSubscriptions.delete(ws);
   },
 };
\ No newline at end of file